@@ -0,0 +1,14 @@
+export default {
+  displayName: 'backend',
+  preset: '../../jest.preset.js',
+  testEnvironment: 'node',
+  setupFiles: ['<rootDir>/src/test-setup.ts'],
+  coverageDirectory: '../../coverage/apps/backend',
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.spec.json' }],
+  },
+  // node-fetch 3 and its dependencies are published as ES modules only
+  transformIgnorePatterns: [
+    'node_modules/(?!(\\.pnpm/)?(node-fetch|fetch-blob|data-uri-to-buffer|formdata-polyfill)[@/])',
+  ],
+};
@@ -0,0 +1,91 @@
+import { finalizeAssessment, generateAssessment } from './assessment';
+import { retrieveGuidelines } from './guidelines';
+import { gatherLinkedEvidence } from './linked-accounts';
+import { ProgressEvent } from './progress';
+import { buildAssessmentPrompt } from './prompt';
+
+const NOW = new Date('2026-10-01T00:00:00Z').getTime();
+
+// The steps of insightRankFlow up to saving, against the cassette and the mock model
+describe('assessing a candidate offline', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    // Gathering evidence logs every tool call
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('gathers evidence from every tool and finalizes the canned assessment', async () => {
+    const events: ProgressEvent[] = [];
+    const report = (event: ProgressEvent) => {
+      events.push(event);
+    };
+
+    const evidence = await gatherLinkedEvidence([{ username: 'octo-dev', provider: 'github' }], report);
+    const guidelines = await retrieveGuidelines(evidence);
+    const prompt = buildAssessmentPrompt({ username: 'octo-dev', evidence, guidelines });
+    const assessment = finalizeAssessment(await generateAssessment(prompt, report), { evidence, guidelines });
+
+    expect(evidence.failures).toEqual([]);
+    expect(guidelines).toHaveLength(6);
+    expect(events.filter((event) => event.type === 'partial').length).toBeGreaterThan(0);
+
+    expect(assessment.recommendation).toBe('Hire');
+    expect(assessment.overallScore).toBeGreaterThanOrEqual(6);
+    expect(assessment.overallScore).toBeLessThanOrEqual(7);
+    expect(assessment.insufficientEvidence).toBeUndefined();
+    expect(assessment.droppedCitations).toEqual([]);
+    expect(assessment.strengths[0].citations[0].url).toBe('https://github.com/octo-dev/taskboard/pull/14');
+    expect(assessment.coverage).toMatchObject({
+      repos: 4,
+      originalRepos: 2,
+      pullRequests: 7,
+      commits: 12,
+      reviews: 2,
+      sampledRepos: 2,
+      confidence: 'medium',
+    });
+  });
+
+  it('gives a reason when the model recommends Insufficient Evidence and verifies flagged risk factors', async () => {
+    const evidence = await gatherLinkedEvidence([{ username: 'octo-dev', provider: 'github' }]);
+    const guidelines = await retrieveGuidelines(evidence);
+    const prompt = buildAssessmentPrompt({ username: 'octo-dev', evidence, guidelines });
+    const generated = await generateAssessment(prompt, () => undefined);
+
+    const assessment = finalizeAssessment(
+      {
+        ...generated,
+        recommendation: 'Insufficient Evidence',
+        riskFactors: [
+          {
+            text: 'Their time zone may make overlap with the team hard',
+            citations: [
+              { type: 'repo', repo: 'octo-dev/taskboard' },
+              { type: 'repo', repo: 'octo-dev/not-in-evidence' },
+            ],
+          },
+        ],
+      },
+      { evidence, guidelines },
+    );
+
+    expect(assessment.recommendation).toBe('Insufficient Evidence');
+    expect(assessment.insufficientEvidence).toBe(
+      'The model judged the public work too thin to recommend either way ' +
+        '(2 original repos, 7 pull requests and 12 recent commits)',
+    );
+    expect(assessment.riskFactors).toEqual([]);
+    expect(assessment.flaggedRiskFactors).toEqual([
+      {
+        text: 'Their time zone may make overlap with the team hard',
+        citations: [{ type: 'repo', repo: 'octo-dev/taskboard', url: 'https://github.com/octo-dev/taskboard' }],
+        attributes: ['location'],
+      },
+    ]);
+    expect(assessment.droppedCitations).toContain('flaggedRiskFactors[0]: repo octo-dev/not-in-evidence');
+  });
+});
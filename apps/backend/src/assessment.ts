@@ -0,0 +1,273 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { MessageData, z } from 'genkit';
+import { ValidationError } from 'genkit/schema';
+
+import { citedFindingSchema, createCitationCheck } from './citations';
+import { LanguageStats } from './code-host';
+import { dataCoverage, dataCoverageSchema } from './coverage';
+import { DeveloperEvidence } from './evidence';
+import { PERSONAL_ATTRIBUTES, insufficientEvidence, judgedInsufficientEvidence, screenRiskFactors } from './fairness';
+import { ai } from './genkit';
+import { Guideline } from './guidelines';
+import { ProgressReporter, progressStepLabels } from './progress';
+import { RoleProfile, matchRoleSkills, modelRoleFitSchema, roleFitSchema } from './role';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  ScoreDimension,
+  computeOverallScore,
+  savedScorecardSchema,
+  scorecardSchema,
+  unscoredDimensions,
+} from './scoring';
+
+export const RECOMMENDATIONS = ['Strong Hire', 'Hire', 'Consider', 'Pass', 'Insufficient Evidence'] as const;
+
+// A strength or growth area, tied to the rubric guidelines that back it
+const guidedFindingSchema = citedFindingSchema.extend({
+  guidelineIds: z.array(z.string()),
+});
+
+// A risk factor held back by screenRiskFactors, with the attributes it mentions
+const flaggedFindingSchema = citedFindingSchema.extend({
+  attributes: z.array(z.enum(PERSONAL_ATTRIBUTES)),
+});
+
+// What the model is asked to produce; the overall score is derived in code
+export const modelAssessmentSchema = z.object({
+  strengths: z.array(guidedFindingSchema).max(3),
+  growthAreas: z.array(guidedFindingSchema).max(2),
+  technicalKeywords: z.array(z.string()).max(8),
+  bestContribution: citedFindingSchema,
+  scorecard: scorecardSchema,
+  recommendation: z.enum(RECOMMENDATIONS),
+  interviewQuestions: z.array(z.string()).max(3),
+  reviewInterviewQuestions: z
+    .array(z.string())
+    .max(2)
+    .describe('Questions on how the candidate reviews code, based on the reviews they gave'),
+  riskFactors: z.array(citedFindingSchema).optional(),
+  roleFit: modelRoleFitSchema.optional().describe('Only when a target role is given'),
+});
+
+export type ModelAssessment = z.infer<typeof modelAssessmentSchema>;
+
+// InsightRank Output Schema
+export const insightRankSchema = modelAssessmentSchema.extend({
+  // Both absent on runs saved before reviews given were assessed
+  scorecard: savedScorecardSchema,
+  reviewInterviewQuestions: z.array(z.string()).optional(),
+  overallScore: z.number().min(1).max(10),
+  droppedCitations: z.array(z.string()),
+  roleFit: roleFitSchema.optional(),
+  // All three absent on runs saved before the fairness safeguards
+  blind: z.boolean().optional().describe('Identity fields were hidden from the model'),
+  insufficientEvidence: z
+    .string()
+    .optional()
+    .describe('Why the public evidence was too sparse to recommend either way'),
+  flaggedRiskFactors: z
+    .array(flaggedFindingSchema)
+    .optional()
+    .describe('Risk factors set aside for mentioning personal attributes rather than work'),
+  // Absent on runs saved before data coverage was reported
+  coverage: dataCoverageSchema.optional(),
+});
+
+export type InsightRankAssessment = z.infer<typeof insightRankSchema>;
+
+export const MAX_ASSESSMENT_ATTEMPTS = 3;
+
+/**
+ * Returned to the client when the model never produced a schema-valid
+ * assessment. Callers must surface this instead of substituting a placeholder.
+ */
+export class AssessmentValidationError extends HttpsError {
+  constructor(
+    public readonly attempts: number,
+    public readonly issues: string[],
+  ) {
+    super(
+      'internal',
+      `The model did not return a valid assessment after ${attempts} attempts.`,
+      { reason: 'INVALID_ASSESSMENT', attempts, issues },
+    );
+    this.name = 'AssessmentValidationError';
+  }
+}
+
+interface InvalidAttempt {
+  output: unknown;
+  issues: string[];
+}
+
+/**
+ * Generates an assessment with Genkit structured output. When the output fails
+ * validation the model is re-prompted with the validation errors, up to
+ * MAX_ASSESSMENT_ATTEMPTS times. Partial output is reported as it streams in.
+ */
+export async function generateAssessment(
+  prompt: string,
+  report: ProgressReporter,
+  abortSignal?: AbortSignal,
+): Promise<ModelAssessment> {
+  let invalid: InvalidAttempt | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ASSESSMENT_ATTEMPTS; attempt++) {
+    const messages: MessageData[] = invalid
+      ? [
+          { role: 'user', content: [{ text: prompt }] },
+          { role: 'model', content: [{ text: JSON.stringify(invalid.output) }] },
+        ]
+      : [];
+
+    if (invalid) {
+      report({
+        type: 'step',
+        step: 'analysis',
+        status: 'started',
+        message: `${progressStepLabels.analysis} (retry ${attempt - 1} of ${MAX_ASSESSMENT_ATTEMPTS - 1}, previous output was invalid)`,
+      });
+    }
+
+    const { response, stream } = ai.generateStream({
+      messages,
+      prompt: invalid ? repairPrompt(invalid.issues) : prompt,
+      output: { schema: modelAssessmentSchema },
+      config: {
+        temperature: 0.3,
+      },
+      abortSignal,
+    });
+
+    try {
+      for await (const chunk of stream) {
+        const partial: unknown = chunk.output;
+        if (partial && typeof partial === 'object') {
+          report({ type: 'partial', attempt, assessment: partial as Record<string, unknown> });
+        }
+      }
+      const output: unknown = (await response).output;
+      const parsed = modelAssessmentSchema.safeParse(output);
+      if (parsed.success) {
+        return parsed.data;
+      }
+      invalid = {
+        output,
+        issues: parsed.error.issues.map(
+          (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+        ),
+      };
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      const detail = error.detail as { data: unknown; errors: { path: string; message: string }[] };
+      invalid = {
+        output: detail.data,
+        issues: detail.errors.map((issue) => `${issue.path || '(root)'}: ${issue.message}`),
+      };
+    }
+
+    console.warn(`InsightRank output failed validation (attempt ${attempt}):`, invalid.issues);
+  }
+
+  throw new AssessmentValidationError(MAX_ASSESSMENT_ATTEMPTS, invalid?.issues ?? []);
+}
+
+/**
+ * Drops guideline citations that were not among the guidelines retrieved for
+ * this candidate, so every remaining id resolves to a rubric the model saw.
+ */
+export function restrictGuidelineCitations(
+  assessment: ModelAssessment,
+  guidelines: Guideline[],
+): ModelAssessment {
+  const known = new Set(guidelines.map((guideline) => guideline.id));
+  const restrict = (findings: ModelAssessment['strengths']) =>
+    findings.map((finding) => ({
+      ...finding,
+      guidelineIds: finding.guidelineIds.filter((id) => known.has(id)),
+    }));
+
+  return {
+    ...assessment,
+    strengths: restrict(assessment.strengths),
+    growthAreas: restrict(assessment.growthAreas),
+  };
+}
+
+// Languages with at least this share of the candidate's code are always among the keywords
+const KEYWORD_LANGUAGE_SHARE = 25;
+
+/**
+ * Puts the candidate's main languages first among the technical keywords when
+ * the model left them out, keeping at most 8 keywords.
+ */
+export function withLanguageKeywords(keywords: string[], languageStats: LanguageStats): string[] {
+  const known = new Set(keywords.map((keyword) => keyword.toLowerCase()));
+  const missing = languageStats.topLanguages
+    .filter((language) => language.percentage >= KEYWORD_LANGUAGE_SHARE && !known.has(language.name.toLowerCase()))
+    .map((language) => language.name);
+  return [...missing, ...keywords].slice(0, 8);
+}
+
+export interface AssessmentContext {
+  evidence: DeveloperEvidence;
+  guidelines: Guideline[];
+  role?: RoleProfile;
+  blind?: boolean;
+}
+
+/**
+ * Turns the model's output into the final assessment: citations are checked
+ * against the evidence (unverifiable ones are dropped and listed), guideline
+ * ids are restricted to those retrieved, the main languages are added to the
+ * keywords, risk factors about personal attributes are set aside, sparse
+ * evidence is recommended as insufficient rather than a pass, role skills are
+ * matched, the overall score is computed and the data coverage behind it is
+ * reported.
+ */
+export function finalizeAssessment(
+  assessment: ModelAssessment,
+  { evidence, guidelines, role, blind }: AssessmentContext,
+  weights: Record<ScoreDimension, number> = DEFAULT_SCORE_WEIGHTS,
+): InsightRankAssessment {
+  const check = createCitationCheck(evidence);
+  const grounded = restrictGuidelineCitations(assessment, guidelines);
+  const technicalKeywords = withLanguageKeywords(grounded.technicalKeywords, evidence.languageStats);
+  const risks = grounded.riskFactors && screenRiskFactors(grounded.riskFactors);
+  const sparse = insufficientEvidence(evidence);
+  const recommendation = sparse ? 'Insufficient Evidence' : grounded.recommendation;
+
+  return {
+    ...grounded,
+    technicalKeywords,
+    strengths: grounded.strengths.map((finding, i) => check.verify(finding, `strengths[${i}]`)),
+    growthAreas: grounded.growthAreas.map((finding, i) => check.verify(finding, `growthAreas[${i}]`)),
+    bestContribution: check.verify(grounded.bestContribution, 'bestContribution'),
+    riskFactors: risks?.kept.map((finding, i) => check.verify(finding, `riskFactors[${i}]`)),
+    recommendation,
+    overallScore: computeOverallScore(grounded.scorecard, weights, unscoredDimensions(evidence.reviewActivity)),
+    droppedCitations: check.dropped,
+    roleFit:
+      grounded.roleFit && role
+        ? matchRoleSkills(grounded.roleFit, role, technicalKeywords)
+        : undefined,
+    blind: blind ?? false,
+    insufficientEvidence:
+      sparse ?? (recommendation === 'Insufficient Evidence' ? judgedInsufficientEvidence(evidence) : undefined),
+    // Verified like the kept ones, so whoever reviews a flagged finding sees what it was based on
+    flaggedRiskFactors: risks?.flagged.map((finding, i) => check.verify(finding, `flaggedRiskFactors[${i}]`)) ?? [],
+    coverage: dataCoverage(evidence),
+  };
+}
+
+function repairPrompt(issues: string[]): string {
+  return `
+    Your previous response did not match the required output schema.
+
+    Validation errors:
+    ${issues.map((issue) => `- ${issue}`).join('\n    ')}
+
+    Return the complete assessment again as JSON, fixing every error above.
+    Do not invent data that is not in the evidence.
+  `;
+}
@@ -0,0 +1,140 @@
+import { z } from 'genkit';
+
+import { DeveloperEvidence, evidenceWebUrl } from './evidence';
+
+// A pointer to a concrete code host artifact present in the gathered evidence
+export const citationSchema = z.object({
+  type: z.enum(['repo', 'pullRequest', 'commit', 'event']),
+  repo: z.string().describe('Repository as owner/name'),
+  prNumber: z.number().optional(),
+  sha: z.string().optional(),
+  eventId: z.string().optional(),
+  url: z.string().optional().describe('Filled in by the backend from the evidence'),
+});
+
+export type Citation = z.infer<typeof citationSchema>;
+
+export const citedFindingSchema = z.object({
+  text: z.string(),
+  citations: z.array(citationSchema),
+});
+
+export type CitedFinding = z.infer<typeof citedFindingSchema>;
+
+/** Lookup tables of every artifact a citation may point at, keyed by lower-cased id. */
+interface EvidenceIndex {
+  repos: Map<string, string>;
+  pullRequests: Map<string, string>;
+  commits: { repo: string; sha: string; url: string }[];
+  events: Map<string, string>;
+}
+
+function indexEvidence(evidence: DeveloperEvidence): EvidenceIndex {
+  // Commits of linked accounts link to the host of the account they came from
+  const accountUrls = new Map((evidence.accounts ?? []).map((account) => [account.id, account.webUrl]));
+  const webUrlOf = (account?: string) => (account && accountUrls.get(account)) || evidenceWebUrl(evidence);
+  const repos = new Map<string, string>();
+  for (const repo of evidence.repos) {
+    repos.set(repo.full_name.toLowerCase(), repo.html_url);
+  }
+
+  const pullRequests = new Map<string, string>();
+  const cited = [
+    ...evidence.pullRequests.recentPRs,
+    ...(evidence.externalContributions?.recentPRs ?? []),
+    // Pull requests the candidate reviewed, so a review can be cited
+    ...(evidence.reviewActivity?.recentReviews ?? []),
+  ];
+  for (const pr of cited) {
+    pullRequests.set(`${pr.repo.toLowerCase()}#${pr.number}`, pr.html_url);
+  }
+
+  const commits = evidence.commitAnalysis.recentCommits.map((commit) => ({
+    repo: commit.repo.toLowerCase(),
+    sha: commit.sha.toLowerCase(),
+    url: commit.html_url ?? `${webUrlOf(commit.account)}/${commit.repo}/commit/${commit.sha}`,
+  }));
+
+  const events = new Map<string, string>();
+  for (const commit of evidence.commitAnalysis.recentCommits) {
+    events.set(commit.eventId, `${webUrlOf(commit.account)}/${commit.repo}`);
+  }
+
+  return { repos, pullRequests, commits, events };
+}
+
+/**
+ * Accepts bare repo names for the candidate's own repositories, since the
+ * model frequently drops the owner prefix, and full repository URLs. A bare
+ * name may belong to any of the candidate's linked accounts, so every owner is
+ * returned as a candidate.
+ */
+function normalizeRepo(repo: string, usernames: string[]): string[] {
+  const trimmed = repo.trim().replace(/^https?:\/\/[^/]+\//i, '').toLowerCase();
+  return trimmed.includes('/') ? [trimmed] : usernames.map((username) => `${username.toLowerCase()}/${trimmed}`);
+}
+
+/** Returns the artifact URL when the citation resolves against the evidence, otherwise null. */
+function resolveCitation(citation: Citation, index: EvidenceIndex, usernames: string[]): string | null {
+  for (const repo of normalizeRepo(citation.repo, usernames)) {
+    const url = resolveInRepo(citation, repo, index);
+    if (url) return url;
+  }
+  return null;
+}
+
+function resolveInRepo(citation: Citation, repo: string, index: EvidenceIndex): string | null {
+  switch (citation.type) {
+    case 'repo':
+      return index.repos.get(repo) ?? null;
+    case 'pullRequest':
+      return citation.prNumber !== undefined
+        ? index.pullRequests.get(`${repo}#${citation.prNumber}`) ?? null
+        : null;
+    case 'commit': {
+      const sha = citation.sha?.toLowerCase() ?? '';
+      if (sha.length < 7) return null;
+      const commit = index.commits.find((c) => c.repo === repo && c.sha.startsWith(sha));
+      return commit?.url ?? null;
+    }
+    case 'event':
+      return citation.eventId ? index.events.get(citation.eventId) ?? null : null;
+  }
+}
+
+function describeCitation(citation: Citation): string {
+  const ref = citation.prNumber ?? citation.sha ?? citation.eventId;
+  return `${citation.type} ${citation.repo}${ref !== undefined ? ` ${ref}` : ''}`;
+}
+
+export interface CitationCheck {
+  verify<T extends CitedFinding>(finding: T, location: string): T;
+  dropped: string[];
+}
+
+/**
+ * Creates a checker that keeps only citations found in the evidence, fills in
+ * their URLs from the fetched data, and records every dropped citation.
+ */
+export function createCitationCheck(evidence: DeveloperEvidence): CitationCheck {
+  const index = indexEvidence(evidence);
+  const usernames = evidence.accounts?.map((account) => account.username) ?? [evidence.username];
+  const dropped: string[] = [];
+
+  return {
+    dropped,
+    verify(finding, location) {
+      return {
+        ...finding,
+        citations: finding.citations.flatMap((citation) => {
+          const url = resolveCitation(citation, index, usernames);
+          if (!url) {
+            dropped.push(`${location}: ${describeCitation(citation)}`);
+            return [];
+          }
+          return [{ ...citation, url }];
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+
+import { CodeHostClient, CodeHostRateLimitError } from './code-host-client';
+
+const json = (body: unknown, headers: Record<string, string> = {}, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+
+describe('CodeHostClient', () => {
+  it('evicts the least recently used responses from the ETag cache', async () => {
+    const sentEtags: Record<string, string | undefined> = {};
+    const network = jest.fn(async (url: unknown, init?: RequestInit) => {
+      const path = new URL(String(url)).pathname;
+      sentEtags[path] = (init?.headers as Record<string, string>)['If-None-Match'];
+      return json({ path }, { etag: `"${path}"` });
+    });
+    const client = new CodeHostClient({
+      host: 'GitHub',
+      baseUrl: 'https://api.github.com',
+      fetchImpl: network as unknown as typeof fetch,
+      maxCacheEntries: 2,
+    });
+
+    await client.get('/a');
+    await client.get('/b');
+    await client.get('/a');
+    await client.get('/c');
+    await client.get('/a');
+    await client.get('/b');
+
+    expect(sentEtags).toEqual({ '/a': '"/a"', '/b': undefined, '/c': undefined });
+  });
+
+  it('reads an HTTP-date Retry-After as the time the rate limit resets', async () => {
+    const resetAt = new Date(Date.now() + 3_600_000);
+    resetAt.setMilliseconds(0);
+    const client = new CodeHostClient({
+      host: 'GitHub',
+      baseUrl: 'https://api.github.com',
+      fetchImpl: (async () => json({}, { 'retry-after': resetAt.toUTCString() }, 429)) as unknown as typeof fetch,
+      maxRetries: 0,
+    });
+
+    const error = await client.get('/users/octo-dev').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(CodeHostRateLimitError);
+    expect(Math.abs((error as CodeHostRateLimitError).resetAt.getTime() - resetAt.getTime())).toBeLessThan(1000);
+  });
+
+  it('backs off when the rate limit is exhausted but no reset time is given', async () => {
+    const client = new CodeHostClient({
+      host: 'GitHub',
+      baseUrl: 'https://api.github.com',
+      fetchImpl: (async () => json({}, { 'x-ratelimit-remaining': '0' }, 403)) as unknown as typeof fetch,
+      maxRetries: 0,
+    });
+
+    const error = await client.get('/users/octo-dev').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(CodeHostRateLimitError);
+    // The exponential backoff's first delay, rather than a reset time read as the epoch
+    const waitMs = (error as CodeHostRateLimitError).resetAt.getTime() - Date.now();
+    expect(waitMs).toBeGreaterThan(400);
+    expect(waitMs).toBeLessThan(800);
+  });
+});
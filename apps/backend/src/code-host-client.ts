@@ -0,0 +1,277 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+
+import { FixtureNotFoundError, fixtureFetchFromEnv } from './code-host-fixtures';
+
+// Typed code host API errors; `host` is the display name, e.g. "GitLab"
+export class CodeHostApiError extends Error {
+  constructor(
+    message: string,
+    public readonly host: string,
+    public readonly status: number,
+    public readonly url: string,
+  ) {
+    super(message);
+    this.name = 'CodeHostApiError';
+  }
+}
+
+export class CodeHostNotFoundError extends CodeHostApiError {
+  constructor(host: string, url: string) {
+    super(`${host} resource not found: ${url}`, host, 404, url);
+    this.name = 'CodeHostNotFoundError';
+  }
+}
+
+export class CodeHostAuthError extends CodeHostApiError {
+  constructor(host: string, status: number, url: string) {
+    super(`${host} rejected the request credentials (${status}): ${url}`, host, status, url);
+    this.name = 'CodeHostAuthError';
+  }
+}
+
+export class CodeHostRateLimitError extends CodeHostApiError {
+  constructor(
+    host: string,
+    status: number,
+    url: string,
+    public readonly resetAt: Date,
+  ) {
+    super(`${host} rate limit exceeded until ${resetAt.toISOString()}: ${url}`, host, status, url);
+    this.name = 'CodeHostRateLimitError';
+  }
+}
+
+export interface CodeHostClientOptions {
+  /** Display name used in errors and logs. */
+  host: string;
+  /** API root, e.g. https://api.github.com or https://gitlab.example.com/api/v4. */
+  baseUrl: string;
+  /** Resolved on every request so secrets injected at runtime are picked up. */
+  token?: () => string | undefined;
+  accept?: string;
+  userAgent?: string;
+  maxRetries?: number;
+  /** Longest we are willing to sleep for a rate-limit reset before giving up. */
+  maxRateLimitWaitMs?: number;
+  /** Most responses kept for revalidation; the least recently used are evicted first. */
+  maxCacheEntries?: number;
+  /** Defaults to recording or replaying fixtures when CODE_HOST_FIXTURES is set, otherwise the network. */
+  fetchImpl?: typeof fetch;
+}
+
+export interface PaginateOptions {
+  params?: Record<string, string | number>;
+  perPage?: number;
+  maxPages?: number;
+}
+
+interface CacheEntry {
+  etag: string;
+  body: unknown;
+  link: string | null;
+}
+
+interface CodeHostResponse<T> {
+  data: T;
+  link: string | null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Thin REST client shared by every code host provider. Handles auth headers,
+ * Link-header pagination, retries with backoff on rate limits and server errors,
+ * and conditional requests so unchanged resources are served from the ETag cache.
+ */
+export class CodeHostClient {
+  private readonly host: string;
+  private readonly baseUrl: string;
+  private readonly token: () => string | undefined;
+  private readonly accept: string;
+  private readonly userAgent: string;
+  private readonly maxRetries: number;
+  private readonly maxRateLimitWaitMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly maxCacheEntries: number;
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(options: CodeHostClientOptions) {
+    this.host = options.host;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.token = options.token ?? (() => undefined);
+    this.accept = options.accept ?? 'application/json';
+    this.userAgent = options.userAgent ?? 'InsightRank-Agent';
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60_000;
+    this.fetchImpl = options.fetchImpl ?? fixtureFetchFromEnv() ?? fetch;
+    this.maxCacheEntries = options.maxCacheEntries ?? 500;
+  }
+
+  async get<T>(path: string, params: Record<string, string | number> = {}): Promise<T> {
+    const { data } = await this.request<T>(this.buildUrl(path, params));
+    return data;
+  }
+
+  /** For endpoints that answer with a raw file rather than JSON. */
+  async getText(path: string, params: Record<string, string | number> = {}): Promise<string> {
+    const { data } = await this.request<string>(this.buildUrl(path, params), 0, (response) => response.text());
+    return data;
+  }
+
+  /**
+   * Follows `rel="next"` links until the last page or `maxPages` is reached.
+   */
+  async paginate<T>(path: string, options: PaginateOptions = {}): Promise<T[]> {
+    const { params = {}, perPage = 100, maxPages = 10 } = options;
+    const items: T[] = [];
+    let url: string | null = this.buildUrl(path, { ...params, per_page: perPage });
+    let page = 0;
+
+    while (url && page < maxPages) {
+      const { data, link }: CodeHostResponse<T[]> = await this.request<T[]>(url);
+      items.push(...data);
+      url = parseNextLink(link);
+      page++;
+    }
+
+    return items;
+  }
+
+  private buildUrl(path: string, params: Record<string, string | number>): string {
+    const url = new URL(path.startsWith('http') ? path : `${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value));
+    }
+    return url.toString();
+  }
+
+  private headers(url: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: this.accept,
+      'User-Agent': this.userAgent,
+    };
+    const token = this.token();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    const cached = this.cache.get(url);
+    if (cached) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    return headers;
+  }
+
+  private async request<T>(
+    url: string,
+    attempt = 0,
+    read: (response: Response) => Promise<T> = (response) => response.json() as Promise<T>,
+  ): Promise<CodeHostResponse<T>> {
+    let response: Response;
+    try {
+      const init: RequestInit = { headers: this.headers(url) };
+      response = await this.fetchImpl(url, init);
+    } catch (error) {
+      // Replaying again would miss again
+      if (error instanceof FixtureNotFoundError || attempt >= this.maxRetries) throw error;
+      await sleep(backoffDelay(attempt));
+      return this.request<T>(url, attempt + 1, read);
+    }
+
+    if (response.status === 304) {
+      const cached = this.cache.get(url);
+      if (cached) {
+        this.remember(url, cached);
+        return { data: cached.body as T, link: cached.link };
+      }
+    }
+
+    if (response.ok) {
+      const data = await read(response);
+      const link = response.headers.get('link');
+      const etag = response.headers.get('etag');
+      if (etag) {
+        this.remember(url, { etag, body: data, link });
+      }
+      return { data, link };
+    }
+
+    if (response.status === 404) {
+      throw new CodeHostNotFoundError(this.host, url);
+    }
+
+    if (response.status === 403 || response.status === 429) {
+      const waitMs = rateLimitWait(response, attempt);
+      if (waitMs !== null) {
+        if (attempt < this.maxRetries && waitMs <= this.maxRateLimitWaitMs) {
+          console.warn(`${this.host} rate limit hit, retrying in ${waitMs}ms: ${url}`);
+          await sleep(waitMs);
+          return this.request<T>(url, attempt + 1, read);
+        }
+        throw new CodeHostRateLimitError(this.host, response.status, url, new Date(Date.now() + waitMs));
+      }
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new CodeHostAuthError(this.host, response.status, url);
+    }
+
+    if (response.status >= 500 && attempt < this.maxRetries) {
+      await sleep(backoffDelay(attempt));
+      return this.request<T>(url, attempt + 1, read);
+    }
+
+    throw new CodeHostApiError(
+      `${this.host} request failed (${response.status} ${response.statusText}): ${url}`,
+      this.host,
+      response.status,
+      url,
+    );
+  }
+
+  // Map keeps insertion order, so re-inserting on every hit makes the first key the least recently used
+  private remember(url: string, entry: CacheEntry): void {
+    this.cache.delete(url);
+    this.cache.set(url, entry);
+    while (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  return 500 * 2 ** attempt + Math.floor(Math.random() * 250);
+}
+
+/**
+ * Returns how long to wait before retrying a throttled response, or null when
+ * the response is a plain permission error rather than a rate limit. Without a
+ * usable reset time it backs off exponentially from `attempt`.
+ */
+function rateLimitWait(response: Response, attempt: number): number | null {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    // Either a number of seconds or an HTTP date
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const until = Date.parse(retryAfter);
+    return Number.isNaN(until) ? backoffDelay(attempt) : Math.max(until - Date.now(), 0);
+  }
+  // GitHub uses the x- prefixed headers, GitLab the unprefixed ones
+  const remaining = response.headers.get('x-ratelimit-remaining') ?? response.headers.get('ratelimit-remaining');
+  if (remaining === '0') {
+    const resetHeader = response.headers.get('x-ratelimit-reset') ?? response.headers.get('ratelimit-reset');
+    // Number(null) is 0, which would retry at once
+    const reset = resetHeader ? Number(resetHeader) : NaN;
+    return Number.isFinite(reset) ? Math.max(reset * 1000 - Date.now(), 0) + 1000 : backoffDelay(attempt);
+  }
+  return response.status === 429 ? backoffDelay(attempt) : null;
+}
+
+function parseNextLink(link: string | null): string | null {
+  if (!link) return null;
+  for (const part of link.split(',')) {
+    const match = part.match(/<([^>]+)>;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import fetch, { Response } from 'node-fetch';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import { CodeHostClient, CodeHostNotFoundError } from './code-host-client';
+import { FixtureNotFoundError, fixtureFetch, fixtureKey } from './code-host-fixtures';
+
+describe('fixtureKey', () => {
+  it('sorts query parameters and drops the start of the commit window', () => {
+    expect(fixtureKey('https://api.github.com/repos/a/b/commits?since=2026-01-01T00%3A00%3A00Z&per_page=100&author=a')).toBe(
+      'https://api.github.com/repos/a/b/commits?author=a&per_page=100',
+    );
+  });
+});
+
+describe('fixtureFetch', () => {
+  let dir: string;
+  let cassette: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cassette-'));
+    cassette = path.join(dir, 'github.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const client = (fetchImpl: typeof fetch) =>
+    new CodeHostClient({ host: 'GitHub', baseUrl: 'https://api.github.com', token: () => 'secret', fetchImpl, maxRetries: 0 });
+
+  it('records responses without request headers and replays them', async () => {
+    const network = jest.fn(async (url: unknown) =>
+      String(url).endsWith('/users/ghost')
+        ? new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, headers: { 'content-type': 'application/json' } })
+        : new Response(JSON.stringify({ login: 'octo-dev' }), {
+            status: 200,
+            headers: { 'content-type': 'application/json', 'x-ratelimit-remaining': '4999', 'set-cookie': 'a=b' },
+          }),
+    );
+
+    const recording = client(fixtureFetch('record', cassette, network as unknown as typeof fetch));
+    await expect(recording.get('/users/octo-dev')).resolves.toEqual({ login: 'octo-dev' });
+    await expect(recording.get('/users/ghost')).rejects.toBeInstanceOf(CodeHostNotFoundError);
+
+    const recorded = readFileSync(cassette, 'utf8');
+    expect(JSON.parse(recorded)['https://api.github.com/users/octo-dev']).toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json', 'x-ratelimit-remaining': '4999' },
+      body: { login: 'octo-dev' },
+    });
+    expect(recorded).not.toContain('secret');
+
+    const offline = jest.fn();
+    const replaying = client(fixtureFetch('replay', cassette, offline as unknown as typeof fetch));
+    await expect(replaying.get('/users/octo-dev')).resolves.toEqual({ login: 'octo-dev' });
+    await expect(replaying.get('/users/ghost')).rejects.toBeInstanceOf(CodeHostNotFoundError);
+    expect(offline).not.toHaveBeenCalled();
+  });
+
+  it('fails requests missing from the cassette', async () => {
+    const replaying = client(fixtureFetch('replay', cassette));
+
+    await expect(replaying.get('/users/someone-else')).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
@@ -0,0 +1,141 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import fetch, { RequestInfo, RequestInit, Response } from 'node-fetch';
+import * as path from 'path';
+
+export const FIXTURE_MODES = ['record', 'replay'] as const;
+
+export type FixtureMode = (typeof FIXTURE_MODES)[number];
+
+/**
+ * A recorded response. Only response headers the client reads are kept, and
+ * request headers (and so tokens) never are. JSON bodies are stored parsed so
+ * cassettes can be read and edited by hand.
+ */
+export interface Fixture {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/** Recorded responses keyed by `fixtureKey` of the request URL. */
+export type Cassette = Record<string, Fixture>;
+
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly cassette: string,
+  ) {
+    super(`No recorded response for ${key} in ${cassette}; record it with CODE_HOST_FIXTURES=record`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+// Response headers the client reads for pagination and rate limits
+const RECORDED_HEADERS = [
+  'content-type',
+  'link',
+  'retry-after',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+];
+
+// Query parameters that change from run to run, such as the start of the commit window
+const VOLATILE_PARAMS = ['since'];
+
+/** The URL without volatile parameters, with the rest sorted so cassettes are easy to write by hand. */
+export function fixtureKey(url: string): string {
+  const parsed = new URL(url);
+  for (const param of VOLATILE_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+// Cassettes are shared by every client in the process, so each provider records into the same file
+const cassettes = new Map<string, Cassette>();
+
+function loadCassette(file: string): Cassette {
+  let cassette = cassettes.get(file);
+  if (!cassette) {
+    cassette = existsSync(file) ? (JSON.parse(readFileSync(file, 'utf8')) as Cassette) : {};
+    cassettes.set(file, cassette);
+  }
+  return cassette;
+}
+
+function saveCassette(file: string, cassette: Cassette): void {
+  mkdirSync(path.dirname(file), { recursive: true });
+  const sorted = Object.fromEntries(Object.entries(cassette).sort(([a], [b]) => a.localeCompare(b)));
+  writeFileSync(file, JSON.stringify(sorted, null, 2) + '\n');
+}
+
+function toResponse(fixture: Fixture): Response {
+  const text = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body);
+  const headers = {
+    ...(typeof fixture.body === 'string' ? {} : { 'content-type': 'application/json' }),
+    ...fixture.headers,
+  };
+  return new Response(text, { status: fixture.status, headers });
+}
+
+async function toFixture(response: Response): Promise<{ fixture: Fixture; text: string }> {
+  const text = await response.text();
+  const headers = Object.fromEntries(
+    RECORDED_HEADERS.flatMap((name) => {
+      const value = response.headers.get(name);
+      return value === null ? [] : [[name, value]];
+    }),
+  );
+  const isJson = headers['content-type']?.includes('json') && text.length > 0;
+  return { fixture: { status: response.status, headers, body: isJson ? JSON.parse(text) : text }, text };
+}
+
+/**
+ * A fetch that records every response to `cassette` or replays responses
+ * from it instead of calling the code host. Requests missing from a cassette
+ * being replayed fail with FixtureNotFoundError.
+ */
+export function fixtureFetch(mode: FixtureMode, cassette: string, fetchImpl: typeof fetch = fetch): typeof fetch {
+  const file = path.resolve(cassette);
+
+  const recordOrReplay = async (url: URL | RequestInfo, init?: RequestInit): Promise<Response> => {
+    const key = fixtureKey(url.toString());
+    const recorded = loadCassette(file);
+
+    if (mode === 'replay') {
+      const fixture = recorded[key];
+      if (!fixture) throw new FixtureNotFoundError(key, file);
+      return toResponse(fixture);
+    }
+
+    const response = await fetchImpl(url, init);
+    // Conditional requests answered from the client's cache have nothing to record
+    if (response.status === 304) return response;
+    const { fixture, text } = await toFixture(response);
+    recorded[key] = fixture;
+    saveCassette(file, recorded);
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+  return recordOrReplay as typeof fetch;
+}
+
+/**
+ * The fetch selected by the CODE_HOST_FIXTURES environment variable, `record`
+ * or `replay`, using the cassette at CODE_HOST_CASSETTE (by default
+ * `fixtures/code-host.json` under the working directory); undefined when unset.
+ */
+export function fixtureFetchFromEnv(): typeof fetch | undefined {
+  const mode = process.env.CODE_HOST_FIXTURES;
+  if (!mode) return undefined;
+  if (!FIXTURE_MODES.includes(mode as FixtureMode)) {
+    throw new Error(`CODE_HOST_FIXTURES must be one of ${FIXTURE_MODES.join(', ')}, got "${mode}"`);
+  }
+  return fixtureFetch(mode as FixtureMode, process.env.CODE_HOST_CASSETTE ?? path.join('fixtures', 'code-host.json'));
+}
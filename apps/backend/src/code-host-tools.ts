@@ -0,0 +1,146 @@
+import { ToolAction, z } from 'genkit';
+
+import {
+  codeHostInputSchema,
+  commitAnalysisSchema,
+  externalContributionsSchema,
+  languageStatsSchema,
+  profileSchema,
+  pullRequestStatsSchema,
+  reposSchema,
+  reviewActivitySchema,
+  starredReposSchema,
+} from './code-host';
+import { codeSampleSchema } from './code-sample';
+import { ai } from './genkit';
+import { getCodeHostProvider } from './providers';
+
+// Annotated because the inferred tool types cannot be named in emitted declarations
+type CodeHostTool<O extends z.ZodTypeAny> = ToolAction<typeof codeHostInputSchema, O>;
+
+// Code host tools; each delegates to the provider selected by the input
+export const fetchUserProfile: CodeHostTool<typeof profileSchema> = ai.defineTool(
+  {
+    name: 'fetchUserProfile',
+    description: 'Fetches the public profile of a GitHub, GitLab or Bitbucket user including bio, followers, company, etc.',
+    inputSchema: codeHostInputSchema,
+    outputSchema: profileSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Fetching ${source.provider} profile for ${username}`);
+    return getCodeHostProvider(source).fetchProfile(username);
+  },
+);
+
+export const fetchRepos: CodeHostTool<typeof reposSchema> = ai.defineTool(
+  {
+    name: 'fetchRepos',
+    description:
+      'Fetches the public repositories of a user sorted by pushed date, each classified as original work, a fork with or without their changes, a tutorial, a generated scaffold or a profile repo.',
+    inputSchema: codeHostInputSchema,
+    outputSchema: reposSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Fetching ${source.provider} repos for ${username}`);
+    return getCodeHostProvider(source).fetchRepos(username);
+  },
+);
+
+export const fetchLanguageStats: CodeHostTool<typeof languageStatsSchema> = ai.defineTool(
+  {
+    name: 'fetchLanguageStats',
+    description:
+      "Weighs the languages of a user's own repositories by bytes of code (forks, archived and template repositories excluded), favouring recently pushed ones, with a year-by-year trend.",
+    inputSchema: codeHostInputSchema,
+    outputSchema: languageStatsSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Analyzing ${source.provider} language stats for ${username}`);
+    return getCodeHostProvider(source).fetchLanguageStats(username);
+  },
+);
+
+export const fetchPullRequests: CodeHostTool<typeof pullRequestStatsSchema> = ai.defineTool(
+  {
+    name: 'fetchPullRequests',
+    description: 'Fetches recent pull (or merge) requests for a user to analyze code quality and collaboration patterns.',
+    inputSchema: codeHostInputSchema,
+    outputSchema: pullRequestStatsSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Fetching ${source.provider} PRs for ${username}`);
+    return getCodeHostProvider(source).fetchPullRequests(username);
+  },
+);
+
+export const fetchCommitAnalysis: CodeHostTool<typeof commitAnalysisSchema> = ai.defineTool(
+  {
+    name: 'fetchCommitAnalysis',
+    description:
+      "Analyzes a developer's commits from their top repositories' history over the last year: frequency, size and message quality (Conventional Commits, imperative mood, bodies, issue references).",
+    inputSchema: codeHostInputSchema,
+    outputSchema: commitAnalysisSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Analyzing ${source.provider} commits for ${username}`);
+    return getCodeHostProvider(source).fetchCommitAnalysis(username);
+  },
+);
+
+export const fetchStarredRepos: CodeHostTool<typeof starredReposSchema> = ai.defineTool(
+  {
+    name: 'fetchStarredRepos',
+    description: 'Fetches repositories that the user has starred to analyze their interests vs their own work.',
+    inputSchema: codeHostInputSchema,
+    outputSchema: starredReposSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Fetching ${source.provider} starred repos for ${username}`);
+    return getCodeHostProvider(source).fetchStarredRepos(username);
+  },
+);
+
+export const fetchExternalContributions: CodeHostTool<typeof externalContributionsSchema> = ai.defineTool(
+  {
+    name: 'fetchExternalContributions',
+    description:
+      "Searches for pull requests the user opened on other people's repositories, with merged, closed and open counts per upstream project, its popularity and maintainer review outcomes.",
+    inputSchema: codeHostInputSchema,
+    outputSchema: externalContributionsSchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Searching ${source.provider} external contributions for ${username}`);
+    return getCodeHostProvider(source).fetchExternalContributions(username);
+  },
+);
+
+export const fetchReviewActivity: CodeHostTool<typeof reviewActivitySchema> = ai.defineTool(
+  {
+    name: 'fetchReviewActivity',
+    description:
+      "Gathers the code reviews a user gave on other people's pull requests: approvals, change requests, inline comment counts, review depth and excerpts showing their tone.",
+    inputSchema: codeHostInputSchema,
+    outputSchema: reviewActivitySchema,
+  },
+  async ({ username, ...source }) => {
+    console.log(`Fetching ${source.provider} reviews given by ${username}`);
+    return getCodeHostProvider(source).fetchReviewActivity(username);
+  },
+);
+
+// The repos step's result can be passed in so they are not fetched and classified a second time
+const codeSampleInputSchema = codeHostInputSchema.extend({ repos: reposSchema.optional() });
+
+export const fetchCodeSample: ToolAction<typeof codeSampleInputSchema, typeof codeSampleSchema> = ai.defineTool(
+  {
+    name: 'fetchCodeSample',
+    description:
+      "Samples the user's most significant repositories: test ratio, CI, linters, README completeness, license, dependency manifests, file sizes and excerpts of representative source files.",
+    inputSchema: codeSampleInputSchema,
+    outputSchema: codeSampleSchema,
+  },
+  async ({ username, repos, ...source }) => {
+    console.log(`Sampling ${source.provider} code for ${username}`);
+    return getCodeHostProvider(source).fetchCodeSample(username, repos);
+  },
+);
@@ -0,0 +1,403 @@
+import {
+  Commit,
+  ExternalPullRequest,
+  PullRequest,
+  ReviewGiven,
+  classifyCommitMessage,
+  commitFrequencyLabel,
+  commitMessageQualityLabel,
+  summarizeCommits,
+  summarizeExternalContributions,
+  summarizeLanguageUsage,
+  summarizePullRequests,
+  summarizeReview,
+  summarizeReviewActivity,
+  summarizeStarred,
+} from './code-host';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+const NO_EXCLUSIONS = { forks: 0, archived: 0, templates: 0 };
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 3_600_000).toISOString();
+
+const pullRequest = (overrides: Partial<PullRequest>): PullRequest => ({
+  repo: 'octo-dev/taskboard',
+  number: 1,
+  html_url: 'https://github.com/octo-dev/taskboard/pull/1',
+  title: 'Add drag and drop',
+  body: null,
+  state: 'closed',
+  created_at: daysAgo(10),
+  merged_at: null,
+  additions: 0,
+  deletions: 0,
+  changed_files: 1,
+  review_comments: 0,
+  commits: 1,
+  ...overrides,
+});
+
+const commit = (overrides: Partial<Commit>): Commit => ({
+  sha: 'abc123',
+  repo: 'octo-dev/taskboard',
+  eventId: 'abc123',
+  message: 'Add drag and drop',
+  date: daysAgo(1),
+  additions: 10,
+  deletions: 5,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('summarizePullRequests', () => {
+  it('computes the merge rate over every pull request looked at, not just the sample', () => {
+    const sample = [pullRequest({ number: 1, merged_at: daysAgo(9) }), pullRequest({ number: 2 })];
+
+    expect(summarizePullRequests(sample, 8, 6).mergeRate).toBe(75);
+  });
+
+  it('reports a zero merge rate when there are no pull requests', () => {
+    const stats = summarizePullRequests([], 0, 0);
+
+    expect(stats.mergeRate).toBe(0);
+    expect(stats.averagePRSize).toBe(0);
+    expect(stats.medianHoursToFirstReview).toBeNull();
+    expect(stats.revisedAfterChangesRate).toBeNull();
+  });
+
+  it('keeps the 10 newest pull requests and averages their size', () => {
+    const sample = Array.from({ length: 12 }, (_, i) =>
+      pullRequest({ number: i + 1, created_at: daysAgo(i), additions: 100, deletions: i < 10 ? 50 : 1000 }),
+    );
+
+    const stats = summarizePullRequests(sample, 12, 0);
+
+    expect(stats.recentPRs.map((pr) => pr.number)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(stats.averagePRSize).toBe(150);
+  });
+
+  it('takes review medians and the revision rate from the sampled reviews', () => {
+    const review = (hoursToFirstReview: number, authorResponse: 'revised' | 'no_response' | 'not_requested') => ({
+      hoursToFirstReview,
+      hoursToMerge: null,
+      rounds: authorResponse === 'not_requested' ? 1 : 2,
+      changesRequested: authorResponse === 'not_requested' ? 0 : 1,
+      authorResponse,
+    });
+    const sample = [
+      pullRequest({ number: 1, review: review(2, 'revised') }),
+      pullRequest({ number: 2, review: review(4, 'no_response') }),
+      pullRequest({ number: 3, review: review(9, 'not_requested') }),
+    ];
+
+    const stats = summarizePullRequests(sample, 3, 0);
+
+    expect(stats.medianHoursToFirstReview).toBe(4);
+    expect(stats.averageReviewRounds).toBe(1.7);
+    expect(stats.revisedAfterChangesRate).toBe(50);
+  });
+});
+
+describe('summarizeReview', () => {
+  it('counts review rounds and how the author answered requested changes', () => {
+    const pr = { created_at: '2026-05-01T00:00:00Z', merged_at: '2026-05-03T00:00:00Z' };
+
+    const review = summarizeReview(pr, [
+      { at: '2026-05-01T06:00:00Z', actor: 'reviewer', action: 'changes_requested' },
+      { at: '2026-05-01T08:00:00Z', actor: 'author', action: 'pushed' },
+      { at: '2026-05-01T09:00:00Z', actor: 'author', action: 'commented' },
+      { at: '2026-05-02T00:00:00Z', actor: 'reviewer', action: 'approved' },
+    ]);
+
+    expect(review).toEqual({
+      hoursToFirstReview: 6,
+      hoursToMerge: 48,
+      rounds: 2,
+      changesRequested: 1,
+      authorResponse: 'revised_and_discussed',
+    });
+  });
+});
+
+describe('summarizeLanguageUsage', () => {
+  it('weighs languages by bytes of code', () => {
+    const stats = summarizeLanguageUsage(
+      [
+        { languages: { TypeScript: 6000, CSS: 1000 }, created_at: daysAgo(30), pushed_at: daysAgo(0) },
+        { languages: { TypeScript: 2000, Shell: 1000 }, created_at: daysAgo(30), pushed_at: daysAgo(0) },
+      ],
+      'bytes',
+      NO_EXCLUSIONS,
+    );
+
+    expect(stats.totalRepos).toBe(2);
+    expect(stats.languages).toEqual({ TypeScript: 2, CSS: 1, Shell: 1 });
+    expect(stats.topLanguages).toEqual([
+      { name: 'TypeScript', count: 2, percentage: 80, bytes: 8000 },
+      { name: 'CSS', count: 1, percentage: 10, bytes: 1000 },
+      { name: 'Shell', count: 1, percentage: 10, bytes: 1000 },
+    ]);
+  });
+
+  it('halves the weight of a repository for every two years since its last push', () => {
+    const stats = summarizeLanguageUsage(
+      [
+        { languages: { Go: 1000 }, created_at: daysAgo(1500), pushed_at: daysAgo(0) },
+        { languages: { Java: 2000 }, created_at: daysAgo(1500), pushed_at: daysAgo(2 * 365.25) },
+      ],
+      'bytes',
+      NO_EXCLUSIONS,
+    );
+
+    expect(stats.shares).toEqual({ Go: 50, Java: 50 });
+    expect(stats.topLanguages.map((language) => language.bytes)).toEqual([1000, 2000]);
+  });
+
+  it('leaves out repositories without code and leaves out bytes for share-based hosts', () => {
+    const stats = summarizeLanguageUsage(
+      [
+        { languages: { Python: 75, Shell: 25 }, created_at: '2025-03-01T00:00:00Z', pushed_at: daysAgo(0) },
+        { languages: {}, created_at: '2025-03-01T00:00:00Z', pushed_at: daysAgo(0) },
+      ],
+      'shares',
+      { forks: 2, archived: 1, templates: 0 },
+    );
+
+    expect(stats.totalRepos).toBe(1);
+    expect(stats.topLanguages).toEqual([
+      { name: 'Python', count: 1, percentage: 75 },
+      { name: 'Shell', count: 1, percentage: 25 },
+    ]);
+    expect(stats.excludedRepos).toEqual({ forks: 2, archived: 1, templates: 0 });
+  });
+
+  it('groups the trend by the year repositories were created', () => {
+    const stats = summarizeLanguageUsage(
+      [
+        { languages: { Ruby: 100 }, created_at: '2023-05-01T00:00:00Z', pushed_at: daysAgo(0) },
+        { languages: { Rust: 300, Ruby: 100 }, created_at: '2025-05-01T00:00:00Z', pushed_at: daysAgo(0) },
+      ],
+      'bytes',
+      NO_EXCLUSIONS,
+    );
+
+    expect(stats.trend).toEqual([
+      { year: 2023, repos: 1, languages: [{ name: 'Ruby', percentage: 100 }] },
+      {
+        year: 2025,
+        repos: 1,
+        languages: [
+          { name: 'Rust', percentage: 75 },
+          { name: 'Ruby', percentage: 25 },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('classifyCommitMessage', () => {
+  it.each([
+    ['Add a cache for search results', true],
+    ['feat(search): add a cache for results', true],
+    ['Added a cache for search results', false],
+    ['Adding a cache for search results', false],
+    ['Adds a cache for search results', false],
+    ['wip', false],
+  ])('rates "%s" as imperative: %s', (message, imperative) => {
+    expect(classifyCommitMessage(message).imperative).toBe(imperative);
+  });
+
+  it('finds every habit in a well-written message', () => {
+    expect(classifyCommitMessage('fix(board): keep card order on drop\n\nCloses #42 by sorting before saving.')).toEqual({
+      conventional: true,
+      imperative: true,
+      conciseSubject: true,
+      hasBody: true,
+      referencesIssue: true,
+    });
+  });
+
+  it('finds none in a bare update', () => {
+    expect(classifyCommitMessage('update')).toEqual({
+      conventional: false,
+      imperative: false,
+      conciseSubject: false,
+      hasBody: false,
+      referencesIssue: false,
+    });
+  });
+});
+
+describe('commitMessageQualityLabel', () => {
+  const stats = (share: number) => ({
+    conventional: share,
+    imperative: share,
+    conciseSubject: share,
+    withBody: share,
+    issueReferences: share,
+  });
+
+  it.each([
+    [60, 'Excellent'],
+    [40, 'Good'],
+    [24, 'Fair'],
+    [23, 'Poor'],
+    [0, 'Poor'],
+  ])('labels messages showing %i%% of every habit as %s', (share, label) => {
+    expect(commitMessageQualityLabel(stats(share))).toBe(label);
+  });
+});
+
+describe('commitFrequencyLabel', () => {
+  it.each([
+    [12, 'Very High'],
+    [10, 'High'],
+    [5.5, 'High'],
+    [5, 'Medium'],
+    [2.1, 'Medium'],
+    [2, 'Low'],
+    [0, 'Low'],
+  ])('labels %d commits a week as %s', (perWeek, label) => {
+    expect(commitFrequencyLabel(perWeek)).toBe(label);
+  });
+});
+
+describe('summarizeCommits', () => {
+  it('counts only commits inside the window', () => {
+    const commits = [
+      commit({ sha: 'a', date: daysAgo(1) }),
+      commit({ sha: 'b', date: daysAgo(20) }),
+      commit({ sha: 'c', date: daysAgo(400) }),
+    ];
+
+    const analysis = summarizeCommits(commits, 365);
+
+    expect(analysis.totalCommits).toBe(2);
+    expect(analysis.recentCommits.map((c) => c.sha)).toEqual(['a', 'b']);
+    expect(analysis.averageCommitsPerWeek).toBe(0);
+    expect(analysis.commitFrequency).toBe('Low');
+  });
+
+  it('rates frequency and message quality over the window', () => {
+    const commits = Array.from({ length: 30 }, (_, i) =>
+      commit({ sha: `sha${i}`, date: daysAgo(i), message: `fix: handle empty board ${i}\n\nRefs #${i + 1}` }),
+    );
+
+    const analysis = summarizeCommits(commits, 28);
+
+    // The commit from exactly 28 days ago falls on the edge of the window and is left out
+    expect(analysis.totalCommits).toBe(28);
+    expect(analysis.averageCommitsPerWeek).toBe(7);
+    expect(analysis.commitFrequency).toBe('High');
+    expect(analysis.commitMessageQuality).toBe('Excellent');
+    expect(analysis.recentCommits).toHaveLength(10);
+    expect(analysis.averageCommitSize).toBe(15);
+  });
+
+  it('rates an empty history as poor', () => {
+    const analysis = summarizeCommits([]);
+
+    expect(analysis.totalCommits).toBe(0);
+    expect(analysis.commitMessageQuality).toBe('Poor');
+    expect(analysis.averageCommitSize).toBe(0);
+  });
+});
+
+describe('summarizeExternalContributions', () => {
+  const external = (overrides: Partial<ExternalPullRequest>): ExternalPullRequest => ({
+    repo: 'acme/widgets',
+    number: 1,
+    html_url: 'https://github.com/acme/widgets/pull/1',
+    title: 'Fix typo',
+    state: 'merged',
+    created_at: daysAgo(5),
+    merged_at: daysAgo(4),
+    maintainerReview: 'approved',
+    ...overrides,
+  });
+
+  it('computes the merge rate and per-project outcomes', () => {
+    const prs = [
+      external({ number: 1 }),
+      external({ number: 2, state: 'closed', merged_at: null, maintainerReview: 'changes_requested' }),
+      external({ number: 3, repo: 'acme/gadgets' }),
+      external({ number: 4, repo: 'acme/gadgets', state: 'open', merged_at: null, maintainerReview: null }),
+    ];
+    const upstream = [
+      { full_name: 'acme/widgets', html_url: 'https://github.com/acme/widgets', stargazers_count: 50, language: 'Go' },
+      { full_name: 'acme/gadgets', html_url: 'https://github.com/acme/gadgets', stargazers_count: 900, language: null },
+    ];
+
+    const contributions = summarizeExternalContributions(prs, upstream, 9);
+
+    expect(contributions).toMatchObject({ totalPRs: 9, merged: 2, closed: 1, open: 1, mergeRate: 50 });
+    expect(contributions.projects.map((project) => [project.repo, project.approvals, project.changesRequested])).toEqual([
+      ['acme/gadgets', 1, 0],
+      ['acme/widgets', 1, 1],
+    ]);
+  });
+});
+
+describe('summarizeReviewActivity', () => {
+  const given = (overrides: Partial<ReviewGiven>): ReviewGiven => ({
+    repo: 'acme/widgets',
+    number: 1,
+    html_url: 'https://github.com/acme/widgets/pull/1',
+    state: 'commented',
+    submitted_at: daysAgo(3),
+    body: null,
+    comments: [],
+    ...overrides,
+  });
+
+  it('tallies review outcomes and comment lengths', () => {
+    const activity = summarizeReviewActivity(
+      [
+        given({ state: 'approved', body: 'Looks good' }),
+        given({ number: 2, state: 'changes_requested', comments: ['Needs a test', 'Typo here'] }),
+        given({ number: 3, repo: 'acme/gadgets', body: '   ' }),
+      ],
+      5,
+    );
+
+    expect(activity).toMatchObject({
+      reviewedPRs: 5,
+      totalReviews: 3,
+      approvals: 1,
+      changesRequested: 1,
+      commentOnly: 1,
+      inlineComments: 2,
+      averageCommentsPerReview: 0.7,
+      averageCommentLength: 10,
+      repos: ['acme/widgets', 'acme/gadgets'],
+    });
+    expect(activity.recentReviews.map((review) => review.excerpt)).toEqual(['Looks good', 'Needs a test', null]);
+  });
+});
+
+describe('summarizeStarred', () => {
+  it('ranks the languages of the most recent stars', () => {
+    const star = (name: string, language: string | null) => ({
+      name,
+      language,
+      description: null,
+      stargazers_count: 1,
+    });
+
+    const starred = summarizeStarred(
+      [star('a', 'Rust'), star('b', 'Go'), star('c', 'Rust'), star('d', null)],
+      40,
+    );
+
+    expect(starred.totalStarred).toBe(40);
+    expect(starred.topStarredLanguages).toEqual(['Rust', 'Go']);
+    expect(starred.recentStars).toHaveLength(4);
+  });
+});
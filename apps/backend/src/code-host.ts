@@ -0,0 +1,810 @@
+import { z } from 'genkit';
+
+import { CodeSample } from './code-sample';
+import { repoClassificationSchema } from './repo-classification';
+
+export const CODE_HOSTS = ['github', 'gitlab', 'bitbucket'] as const;
+
+export const codeHostSchema = z.enum(CODE_HOSTS);
+
+export type CodeHost = z.infer<typeof codeHostSchema>;
+
+export const codeHostLabels: Record<CodeHost, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+// Where a candidate's profile lives; `baseUrl` is only used for self-hosted GitLab
+export const codeHostSourceSchema = z.object({
+  provider: codeHostSchema.default('github'),
+  baseUrl: z
+    .string()
+    .url()
+    // A regex rather than startsWith, whose JSON schema pattern escapes the colon and fails to compile
+    .regex(/^https:\/\//, 'Self-hosted GitLab must be reached over https')
+    .optional()
+    .describe('Web URL of a self-hosted GitLab instance, e.g. https://gitlab.example.com'),
+});
+
+export type CodeHostSource = z.infer<typeof codeHostSourceSchema>;
+
+export const codeHostInputSchema = codeHostSourceSchema.extend({
+  username: z.string(),
+});
+
+export type CodeHostInput = z.infer<typeof codeHostInputSchema>;
+
+/** Identifies an account across hosts, e.g. `gitlab:jdoe` or `gitlab@gitlab.example.com:jdoe`. */
+export function accountId({ provider, baseUrl, username }: CodeHostInput): string {
+  const host = provider === 'gitlab' && baseUrl ? new URL(baseUrl).host.toLowerCase() : 'gitlab.com';
+  return host === 'gitlab.com' ? `${provider}:${username}` : `${provider}@${host}:${username}`;
+}
+
+/**
+ * Key runs are grouped by in history. GitHub keeps the bare lower-cased
+ * username so runs saved before other hosts were supported still match.
+ */
+export function candidateKey(input: CodeHostInput): string {
+  return input.provider === 'github' ? input.username.toLowerCase() : accountId(input).toLowerCase();
+}
+
+// Which linked account an evidence item came from (an `accountId`); absent on older runs
+const accountField = z.string().optional();
+
+// Provider output schemas; every host is mapped onto the same shapes
+export const profileSchema = z.object({
+  login: z.string(),
+  // Numeric on GitHub and GitLab, a UUID on Bitbucket
+  id: z.string(),
+  avatar_url: z.string(),
+  html_url: z.string(),
+  name: z.string().nullable(),
+  company: z.string().nullable(),
+  blog: z.string().nullable(),
+  location: z.string().nullable(),
+  bio: z.string().nullable(),
+  public_repos: z.number(),
+  followers: z.number(),
+  following: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const reposSchema = z.array(z.object({
+  name: z.string(),
+  full_name: z.string(),
+  html_url: z.string(),
+  language: z.string().nullable(),
+  pushed_at: z.string(),
+  stargazers_count: z.number(),
+  forks: z.number(),
+  fork: z.boolean().optional(),
+  // Absent on runs saved before repos were classified
+  classification: repoClassificationSchema.optional(),
+  account: accountField,
+  // Both match the same repo across linked accounts; absent on older runs
+  parent: z.string().optional().describe('Web URL of the repo this fork was made from'),
+  headSha: z.string().optional().describe('Latest commit on the default branch'),
+}));
+
+export const LANGUAGE_WEIGHTINGS = ['bytes', 'shares'] as const;
+
+const languageShareSchema = z.object({
+  name: z.string(),
+  percentage: z.number(),
+});
+
+export const languageStatsSchema = z.object({
+  languages: z.record(z.string(), z.number()).describe('Number of repositories each language is used in'),
+  totalRepos: z.number(),
+  topLanguages: z.array(z.object({
+    name: z.string(),
+    count: z.number().describe('Repositories using the language'),
+    percentage: z.number().describe('Share of the code, weighted towards recently pushed repositories'),
+    bytes: z.number().optional(),
+  })),
+  // All absent on runs saved before languages were weighted by code, whose percentages count repos by primary language
+  weighting: z
+    .enum(LANGUAGE_WEIGHTINGS)
+    .optional()
+    .describe('bytes: by bytes of code; shares: every repository counts equally, split by its language shares'),
+  shares: z.record(z.string(), z.number()).optional().describe('Recency-weighted share of every language, in percent'),
+  excludedRepos: z
+    .object({
+      forks: z.number(),
+      archived: z.number(),
+      templates: z.number(),
+    })
+    .optional(),
+  trend: z
+    .array(z.object({
+      year: z.number().describe('Year the repositories were created'),
+      repos: z.number(),
+      languages: z.array(languageShareSchema),
+    }))
+    .optional(),
+});
+
+export const AUTHOR_RESPONSES = ['not_requested', 'revised', 'discussed', 'revised_and_discussed', 'no_response'] as const;
+
+// How a pull request went through review, derived from its review timeline
+const pullRequestReviewSchema = z.object({
+  hoursToFirstReview: z.number().nullable().describe('Null when nobody but the author reviewed or commented'),
+  hoursToMerge: z.number().nullable(),
+  rounds: z.number().describe('Batches of reviewer feedback, each one answered by the author before the next'),
+  changesRequested: z.number(),
+  authorResponse: z
+    .enum(AUTHOR_RESPONSES)
+    .describe('What the author did after changes were first requested: pushed revisions, replied, both or neither'),
+});
+
+const pullRequestSchema = z.object({
+  repo: z.string(),
+  number: z.number(),
+  html_url: z.string(),
+  title: z.string(),
+  body: z.string().nullable(),
+  state: z.string(),
+  created_at: z.string(),
+  merged_at: z.string().nullable(),
+  additions: z.number(),
+  deletions: z.number(),
+  changed_files: z.number(),
+  review_comments: z.number(),
+  commits: z.number(),
+  // Absent on runs saved before pull requests were enriched with their reviews
+  review: pullRequestReviewSchema.optional(),
+  account: accountField,
+});
+
+export const pullRequestStatsSchema = z.object({
+  totalPRs: z.number(),
+  recentPRs: z.array(pullRequestSchema),
+  averagePRSize: z.number(),
+  mergeRate: z.number(),
+  // Over the sampled pull requests; absent on runs saved before reviews were looked up
+  medianHoursToFirstReview: z.number().nullable().optional(),
+  medianHoursToMerge: z.number().nullable().optional(),
+  averageReviewRounds: z.number().optional(),
+  revisedAfterChangesRate: z
+    .number()
+    .nullable()
+    .optional()
+    .describe('Percentage of pull requests with requested changes that the author revised'),
+});
+
+// What the message-quality classifier found in a commit message
+const commitMessageTraitsSchema = z.object({
+  conventional: z.boolean().describe('Follows Conventional Commits, e.g. "fix(parser): ..."'),
+  imperative: z.boolean().describe('Subject starts with an imperative verb, e.g. "Add" rather than "Added"'),
+  conciseSubject: z.boolean().describe('Subject is between 10 and 72 characters'),
+  hasBody: z.boolean().describe('A body explains the change below the subject'),
+  referencesIssue: z.boolean().describe('Mentions an issue or ticket, e.g. #123 or PROJ-45'),
+});
+
+const commitSchema = z.object({
+  sha: z.string(),
+  repo: z.string(),
+  eventId: z.string(),
+  // Absent on runs saved before other hosts were supported, which are all GitHub
+  html_url: z.string().optional(),
+  message: z.string(),
+  date: z.string(),
+  additions: z.number(),
+  deletions: z.number(),
+  // Absent on runs saved before commits were read from repository history
+  messageTraits: commitMessageTraitsSchema.optional(),
+  account: accountField,
+});
+
+// Share of commits in the window with each message trait, as percentages
+const commitMessageStatsSchema = z.object({
+  conventional: z.number(),
+  imperative: z.number(),
+  conciseSubject: z.number(),
+  withBody: z.number(),
+  issueReferences: z.number(),
+});
+
+export const commitAnalysisSchema = z.object({
+  totalCommits: z.number(),
+  commitFrequency: z.string(),
+  averageCommitsPerWeek: z.number(),
+  commitMessageQuality: z.string(),
+  recentCommits: z.array(commitSchema),
+  // All absent on runs saved before commits were read from repository history
+  windowDays: z.number().optional().describe('How far back commits were counted'),
+  averageCommitSize: z.number().optional().describe('Lines added plus deleted, over recentCommits'),
+  messageStats: commitMessageStatsSchema.optional(),
+});
+
+export const REVIEW_OUTCOMES = ['approved', 'changes_requested', 'commented', 'unreviewed'] as const;
+
+// A pull request to a repository the candidate does not own
+const externalPullRequestSchema = z.object({
+  repo: z.string(),
+  number: z.number(),
+  html_url: z.string(),
+  title: z.string(),
+  state: z.enum(['open', 'merged', 'closed']),
+  created_at: z.string(),
+  merged_at: z.string().nullable(),
+  maintainerReview: z
+    .enum(REVIEW_OUTCOMES)
+    .nullable()
+    .describe('Latest review by a maintainer of the upstream repo; null when reviews were not looked up'),
+  account: accountField,
+});
+
+const upstreamProjectSchema = z.object({
+  repo: z.string(),
+  html_url: z.string(),
+  stargazers_count: z.number(),
+  language: z.string().nullable(),
+  merged: z.number(),
+  closed: z.number().describe('Closed without being merged'),
+  open: z.number(),
+  approvals: z.number().describe('Pull requests whose latest maintainer review approved them'),
+  changesRequested: z.number().describe('Pull requests whose latest maintainer review requested changes'),
+});
+
+export const externalContributionsSchema = z.object({
+  totalPRs: z.number().describe('Every pull request the candidate opened on repos they do not own'),
+  merged: z.number(),
+  closed: z.number(),
+  open: z.number(),
+  mergeRate: z.number(),
+  projects: z.array(upstreamProjectSchema).describe('Upstream projects contributed to, most merged first'),
+  recentPRs: z.array(externalPullRequestSchema),
+});
+
+// A review the candidate gave on someone else's pull request
+const givenReviewSchema = z.object({
+  repo: z.string(),
+  number: z.number(),
+  html_url: z.string(),
+  state: z.enum(['approved', 'changes_requested', 'commented']),
+  submitted_at: z.string(),
+  comments: z.number().describe('Inline comments left with the review'),
+  excerpt: z.string().nullable().describe('The start of the review text, as a sample of its tone'),
+  account: accountField,
+});
+
+export const reviewActivitySchema = z.object({
+  reviewedPRs: z.number().describe("Other people's pull requests the candidate reviewed"),
+  totalReviews: z.number().describe('Reviews looked at, from the most recently reviewed pull requests'),
+  approvals: z.number(),
+  changesRequested: z.number(),
+  commentOnly: z.number(),
+  inlineComments: z.number(),
+  averageCommentsPerReview: z.number(),
+  averageCommentLength: z.number().describe('Characters per review body or inline comment'),
+  repos: z.array(z.string()).describe('Repositories the reviews were given in, most reviewed first'),
+  recentReviews: z.array(givenReviewSchema),
+});
+
+const starredRepoSchema = z.object({
+  name: z.string(),
+  language: z.string().nullable(),
+  description: z.string().nullable(),
+  stargazers_count: z.number(),
+  account: accountField,
+});
+
+export const starredReposSchema = z.object({
+  totalStarred: z.number(),
+  topStarredLanguages: z.array(z.string()),
+  recentStars: z.array(starredRepoSchema),
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+export type Repos = z.infer<typeof reposSchema>;
+export type LanguageStats = z.infer<typeof languageStatsSchema>;
+export type LanguageWeighting = (typeof LANGUAGE_WEIGHTINGS)[number];
+export type ExcludedRepos = NonNullable<LanguageStats['excludedRepos']>;
+export type PullRequestReview = z.infer<typeof pullRequestReviewSchema>;
+export type PullRequest = z.infer<typeof pullRequestSchema>;
+export type PullRequestStats = z.infer<typeof pullRequestStatsSchema>;
+export type CommitMessageTraits = z.infer<typeof commitMessageTraitsSchema>;
+export type CommitMessageStats = z.infer<typeof commitMessageStatsSchema>;
+export type Commit = z.infer<typeof commitSchema>;
+export type CommitAnalysis = z.infer<typeof commitAnalysisSchema>;
+export type ExternalPullRequest = z.infer<typeof externalPullRequestSchema>;
+export type UpstreamProject = z.infer<typeof upstreamProjectSchema>;
+export type ExternalContributions = z.infer<typeof externalContributionsSchema>;
+export type GivenReview = z.infer<typeof givenReviewSchema>;
+export type ReviewActivity = z.infer<typeof reviewActivitySchema>;
+export type StarredRepo = z.infer<typeof starredRepoSchema>;
+export type StarredRepos = z.infer<typeof starredReposSchema>;
+
+/**
+ * One implementation per code host. Providers only fetch and map raw API data;
+ * the statistics derived from it are computed by the shared summarizers below
+ * so an assessment reads the same way whichever host the data came from.
+ */
+export interface CodeHostProvider {
+  readonly host: CodeHost;
+  /** Web root that repo paths are relative to, e.g. https://gitlab.com. */
+  readonly webUrl: string;
+  fetchProfile(username: string): Promise<Profile>;
+  /** The 15 most recently pushed repositories, each classified by `classifyRepo`. */
+  fetchRepos(username: string): Promise<Repos>;
+  fetchLanguageStats(username: string): Promise<LanguageStats>;
+  fetchPullRequests(username: string): Promise<PullRequestStats>;
+  fetchCommitAnalysis(username: string): Promise<CommitAnalysis>;
+  fetchStarredRepos(username: string): Promise<StarredRepos>;
+  /** Pull requests the user opened on repositories they do not own. */
+  fetchExternalContributions(username: string): Promise<ExternalContributions>;
+  /** Reviews the user gave on other people's pull requests. */
+  fetchReviewActivity(username: string): Promise<ReviewActivity>;
+  /**
+   * Static signals and representative files from the user's most significant
+   * repositories, chosen from `repos` when the caller already fetched them.
+   */
+  fetchCodeSample(username: string, repos?: Repos): Promise<CodeSample>;
+}
+
+/** A review as providers read it, with the full text of its body and inline comments. */
+export interface ReviewGiven {
+  repo: string;
+  number: number;
+  html_url: string;
+  state: GivenReview['state'];
+  submitted_at: string;
+  body: string | null;
+  comments: string[];
+}
+
+/** What providers look up about the upstream repositories a candidate contributed to. */
+export interface UpstreamRepo {
+  full_name: string;
+  html_url: string;
+  stargazers_count: number;
+  language: string | null;
+}
+
+/** One repository's code per language: bytes, or percentages on hosts that only report shares. */
+export interface RepoLanguages {
+  languages: Record<string, number>;
+  created_at: string;
+  pushed_at: string;
+}
+
+/** Amounts of code per language in the repositories created in one year. */
+export interface LanguageYear {
+  repos: number;
+  amounts: Record<string, number>;
+}
+
+// Repositories whose languages are looked up, most recently pushed first
+export const LANGUAGE_REPOS = 30;
+// A repository last pushed this many years ago counts half as much as one pushed today
+const LANGUAGE_HALF_LIFE_YEARS = 2;
+const YEAR_MS = 365.25 * 24 * 3_600_000;
+
+const recencyWeight = (pushedAt: string) =>
+  0.5 ** (Math.max(Date.now() - new Date(pushedAt).getTime(), 0) / YEAR_MS / LANGUAGE_HALF_LIFE_YEARS);
+
+const addTo = (totals: Record<string, number>, name: string, amount: number) => {
+  totals[name] = (totals[name] ?? 0) + amount;
+};
+
+/** Each language's percentage of the total to one decimal, largest first. */
+function percentages(amounts: Record<string, number>): [string, number][] {
+  const total = Object.values(amounts).reduce((sum, amount) => sum + amount, 0);
+  return Object.entries(amounts)
+    .filter(([, amount]) => amount > 0)
+    .map(([name, amount]): [string, number] => [name, Math.round((amount / total) * 1000) / 10])
+    .sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Builds language stats from how many repositories use each language and the
+ * recency-weighted amount of code in it. `bytes` are the unweighted totals,
+ * reported only when amounts are bytes.
+ */
+export function languageStatsFrom(
+  counts: Record<string, number>,
+  weighted: Record<string, number>,
+  options: {
+    totalRepos: number;
+    weighting: LanguageWeighting;
+    excludedRepos: ExcludedRepos;
+    years: Map<number, LanguageYear>;
+    bytes?: Record<string, number>;
+  },
+): LanguageStats {
+  const { totalRepos, weighting, excludedRepos, years, bytes } = options;
+  const shares = percentages(weighted);
+  return {
+    languages: counts,
+    totalRepos,
+    topLanguages: shares.slice(0, 5).map(([name, percentage]) => ({
+      name,
+      count: counts[name] ?? 0,
+      percentage: Math.round(percentage),
+      ...(bytes ? { bytes: bytes[name] ?? 0 } : {}),
+    })),
+    weighting,
+    shares: Object.fromEntries(shares),
+    excludedRepos,
+    trend: [...years.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([year, { repos, amounts }]) => ({
+        year,
+        repos,
+        languages: percentages(amounts)
+          .slice(0, 5)
+          .map(([name, percentage]) => ({ name, percentage: Math.round(percentage) })),
+      })),
+  };
+}
+
+/**
+ * Weighs every language by the amount of code written in it, counting
+ * recently pushed repositories more: a repository's weight halves for every
+ * two years since its last push. The trend groups repositories by the year
+ * they were created, unweighted. Providers leave out forks, archived
+ * repositories and templates and say how many they excluded.
+ */
+export function summarizeLanguageUsage(
+  repos: RepoLanguages[],
+  weighting: LanguageWeighting,
+  excludedRepos: ExcludedRepos,
+): LanguageStats {
+  const counts: Record<string, number> = {};
+  const weighted: Record<string, number> = {};
+  const bytes: Record<string, number> = {};
+  const years = new Map<number, LanguageYear>();
+  const withCode = repos.filter((repo) => Object.keys(repo.languages).length > 0);
+
+  for (const repo of withCode) {
+    const weight = recencyWeight(repo.pushed_at);
+    const year = new Date(repo.created_at).getUTCFullYear();
+    const trend = Number.isNaN(year) ? undefined : (years.get(year) ?? { repos: 0, amounts: {} });
+    if (trend) {
+      trend.repos++;
+      years.set(year, trend);
+    }
+    for (const [name, amount] of Object.entries(repo.languages)) {
+      addTo(counts, name, 1);
+      addTo(weighted, name, amount * weight);
+      addTo(bytes, name, amount);
+      if (trend) addTo(trend.amounts, name, amount);
+    }
+  }
+
+  return languageStatsFrom(counts, weighted, {
+    totalRepos: withCode.length,
+    weighting,
+    excludedRepos,
+    years,
+    bytes: weighting === 'bytes' ? bytes : undefined,
+  });
+}
+
+/** Something that happened on a pull request after it was opened, as providers read it from the host. */
+export interface ReviewEvent {
+  at: string;
+  actor: 'author' | 'reviewer';
+  action: 'approved' | 'changes_requested' | 'commented' | 'pushed';
+}
+
+const hoursBetween = (from: string, to: string) =>
+  Math.round(((new Date(to).getTime() - new Date(from).getTime()) / 3_600_000) * 10) / 10;
+
+/** Derives review metrics from a pull request's timeline; events before it was opened are ignored. */
+export function summarizeReview(
+  pr: Pick<PullRequest, 'created_at' | 'merged_at'>,
+  events: ReviewEvent[],
+): PullRequestReview {
+  const time = (at: string) => new Date(at).getTime();
+  const timeline = events
+    .filter((event) => time(event.at) >= time(pr.created_at))
+    .sort((a, b) => time(a.at) - time(b.at));
+  const reviews = timeline.filter((event) => event.actor === 'reviewer');
+
+  // A round starts whenever a reviewer speaks after the author (or first)
+  const rounds = timeline.filter(
+    (event, i) => event.actor === 'reviewer' && (i === 0 || timeline[i - 1].actor === 'author'),
+  ).length;
+
+  const firstRequest = reviews.find((event) => event.action === 'changes_requested');
+  let authorResponse: PullRequestReview['authorResponse'] = 'not_requested';
+  if (firstRequest) {
+    const responses = timeline.filter((event) => event.actor === 'author' && time(event.at) > time(firstRequest.at));
+    const revised = responses.some((event) => event.action === 'pushed');
+    const discussed = responses.some((event) => event.action === 'commented');
+    authorResponse = revised && discussed
+      ? 'revised_and_discussed'
+      : revised ? 'revised' : discussed ? 'discussed' : 'no_response';
+  }
+
+  return {
+    hoursToFirstReview: reviews[0] ? hoursBetween(pr.created_at, reviews[0].at) : null,
+    hoursToMerge: pr.merged_at ? hoursBetween(pr.created_at, pr.merged_at) : null,
+    rounds,
+    changesRequested: reviews.filter((event) => event.action === 'changes_requested').length,
+    authorResponse,
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round(((sorted[middle - 1] + sorted[middle]) / 2) * 10) / 10;
+}
+
+/**
+ * `sample` is the subset of the candidate's pull requests kept as evidence;
+ * totals and merge rate cover every pull request that was looked at. Size and
+ * review metrics come from the sample.
+ */
+export function summarizePullRequests(
+  sample: PullRequest[],
+  totalPRs: number,
+  mergedPRs: number,
+): PullRequestStats {
+  const recentPRs = [...sample]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, 10);
+
+  const averagePRSize = recentPRs.length > 0
+    ? Math.round(recentPRs.reduce((sum, pr) => sum + pr.additions + pr.deletions, 0) / recentPRs.length)
+    : 0;
+
+  const mergeRate = totalPRs > 0 ? Math.round((mergedPRs / totalPRs) * 100) : 0;
+
+  const reviews = recentPRs.flatMap((pr) => (pr.review ? [pr.review] : []));
+  const withRequests = reviews.filter((review) => review.authorResponse !== 'not_requested');
+  const revised = withRequests.filter((review) => review.authorResponse.startsWith('revised'));
+
+  return {
+    totalPRs,
+    recentPRs,
+    averagePRSize,
+    mergeRate,
+    medianHoursToFirstReview: median(reviews.flatMap((review) => review.hoursToFirstReview ?? [])),
+    medianHoursToMerge: median(reviews.flatMap((review) => review.hoursToMerge ?? [])),
+    averageReviewRounds: reviews.length > 0
+      ? Math.round((reviews.reduce((sum, review) => sum + review.rounds, 0) / reviews.length) * 10) / 10
+      : 0,
+    revisedAfterChangesRate: withRequests.length > 0
+      ? Math.round((revised.length / withRequests.length) * 100)
+      : null,
+  };
+}
+
+/** Commits are counted over the last year of each repository's history. */
+export const COMMIT_WINDOW_DAYS = 365;
+
+export const commitWindowStart = (windowDays = COMMIT_WINDOW_DAYS) =>
+  new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+const CONVENTIONAL_COMMIT = /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\([^)]*\))?!?: \S/i;
+const ISSUE_REFERENCE = /(^|[\s(])#\d+\b|\b[A-Z][A-Z0-9]+-\d+\b|\b(close[sd]?|fix(e[sd])?|resolve[sd]?) [\w./-]*#\d+/;
+// Third-person forms that pass the -ed/-ing check but are not imperative
+const NON_IMPERATIVE_VERBS = new Set([
+  'adds', 'fixes', 'updates', 'removes', 'changes', 'implements', 'makes', 'moves',
+  'renames', 'uses', 'improves', 'refactors', 'cleans', 'bumps', 'creates', 'deletes',
+]);
+const NON_IMPERATIVE_WORDS = new Set(['wip', 'misc', 'stuff', 'changes', 'update', 'updates', 'minor', 'tmp']);
+
+/**
+ * Heuristic message-quality classifier. The imperative check looks at the
+ * first word of the subject (after any Conventional Commits prefix), so
+ * "Add cache" passes and "Added cache", "Adding cache" or "Adds cache" do not.
+ * A bare "update" or "wip" subject is not imperative either.
+ */
+export function classifyCommitMessage(message: string): CommitMessageTraits {
+  const [subjectLine = ''] = message.split('\n');
+  const subject = subjectLine.trim();
+  const description = subject.replace(CONVENTIONAL_COMMIT, (match) => match.slice(-1)).trim();
+  const words = description.split(/\s+/).map((word) => word.toLowerCase().replace(/[^a-z]/g, ''));
+  const [first = ''] = words;
+
+  return {
+    conventional: CONVENTIONAL_COMMIT.test(subject),
+    imperative:
+      first.length > 1 &&
+      !/(ed|ing)$/.test(first) &&
+      !NON_IMPERATIVE_VERBS.has(first) &&
+      !(words.length === 1 && NON_IMPERATIVE_WORDS.has(first)),
+    conciseSubject: subject.length >= 10 && subject.length <= 72,
+    hasBody: /\n\s*\n\s*\S/.test(message.trim()),
+    referencesIssue: ISSUE_REFERENCE.test(message),
+  };
+}
+
+const percentage = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+
+export function commitMessageStats(traits: CommitMessageTraits[]): CommitMessageStats {
+  const share = (trait: keyof CommitMessageTraits) =>
+    percentage(traits.filter((commit) => commit[trait]).length, traits.length);
+  return {
+    conventional: share('conventional'),
+    imperative: share('imperative'),
+    conciseSubject: share('conciseSubject'),
+    withBody: share('hasBody'),
+    issueReferences: share('referencesIssue'),
+  };
+}
+
+/**
+ * Rates messages by how many good habits they show on average: an imperative,
+ * concise subject, a body, an issue reference, and Conventional Commits
+ * (which counts as much as the others, not more).
+ */
+export function commitMessageQualityLabel(stats: CommitMessageStats): string {
+  const habits =
+    (stats.imperative + stats.conciseSubject + stats.withBody + stats.issueReferences + stats.conventional) / 100;
+  if (habits >= 3) return 'Excellent';
+  if (habits >= 2) return 'Good';
+  if (habits >= 1.2) return 'Fair';
+  return 'Poor';
+}
+
+/**
+ * `commits` are the candidate's commits from repository history, newest
+ * first; those older than the window are ignored. Only the 10 most recent are
+ * kept as evidence, so providers only need per-commit stats for those.
+ */
+export function summarizeCommits(commits: Commit[], windowDays = COMMIT_WINDOW_DAYS): CommitAnalysis {
+  const since = commitWindowStart(windowDays);
+  const inWindow = commits
+    .filter((commit) => new Date(commit.date) > since)
+    .map((commit) => ({ ...commit, messageTraits: classifyCommitMessage(commit.message) }));
+
+  const averageCommitsPerWeek = Math.round((inWindow.length / (windowDays / 7)) * 10) / 10;
+  const messageStats = commitMessageStats(inWindow.map((commit) => commit.messageTraits));
+  const recentCommits = inWindow.slice(0, 10);
+
+  return {
+    totalCommits: inWindow.length,
+    commitFrequency: commitFrequencyLabel(averageCommitsPerWeek),
+    averageCommitsPerWeek,
+    commitMessageQuality: inWindow.length > 0 ? commitMessageQualityLabel(messageStats) : 'Poor',
+    recentCommits,
+    windowDays,
+    averageCommitSize: averageCommitSize(recentCommits),
+    messageStats,
+  };
+}
+
+export const averageCommitSize = (commits: Commit[]) =>
+  commits.length > 0
+    ? Math.round(commits.reduce((sum, commit) => sum + commit.additions + commit.deletions, 0) / commits.length)
+    : 0;
+
+/** Newest first, as summarizeCommits expects. */
+export const byNewestCommit = (a: Commit, b: Commit) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+export function commitFrequencyLabel(averageCommitsPerWeek: number): string {
+  if (averageCommitsPerWeek > 10) return 'Very High';
+  if (averageCommitsPerWeek > 5) return 'High';
+  if (averageCommitsPerWeek > 2) return 'Medium';
+  return 'Low';
+}
+
+/** The upstream repos with the most pull requests from the candidate, for providers to look up. */
+export function topUpstreamRepos(prs: ExternalPullRequest[], count: number): string[] {
+  const counts = new Map<string, number>();
+  for (const pr of prs) {
+    counts.set(pr.repo, (counts.get(pr.repo) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]).slice(0, count).map(([repo]) => repo);
+}
+
+/**
+ * `prs` are the external pull requests that were looked at, `upstream` the
+ * repos among them that were looked up, and `totalPRs` the host's total
+ * count, which can exceed the sample.
+ */
+export function summarizeExternalContributions(
+  prs: ExternalPullRequest[],
+  upstream: UpstreamRepo[],
+  totalPRs = prs.length,
+): ExternalContributions {
+  const count = (list: ExternalPullRequest[], matches: (pr: ExternalPullRequest) => boolean) =>
+    list.filter(matches).length;
+
+  const projects = upstream
+    .map((repo) => {
+      const repoPRs = prs.filter((pr) => pr.repo === repo.full_name);
+      return {
+        repo: repo.full_name,
+        html_url: repo.html_url,
+        stargazers_count: repo.stargazers_count,
+        language: repo.language,
+        merged: count(repoPRs, (pr) => pr.state === 'merged'),
+        closed: count(repoPRs, (pr) => pr.state === 'closed'),
+        open: count(repoPRs, (pr) => pr.state === 'open'),
+        approvals: count(repoPRs, (pr) => pr.maintainerReview === 'approved'),
+        changesRequested: count(repoPRs, (pr) => pr.maintainerReview === 'changes_requested'),
+      };
+    })
+    .sort((a, b) => b.merged - a.merged || b.stargazers_count - a.stargazers_count);
+
+  const merged = count(prs, (pr) => pr.state === 'merged');
+  const recentPRs = [...prs]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, 10);
+
+  return {
+    totalPRs,
+    merged,
+    closed: count(prs, (pr) => pr.state === 'closed'),
+    open: count(prs, (pr) => pr.state === 'open'),
+    mergeRate: prs.length > 0 ? Math.round((merged / prs.length) * 100) : 0,
+    projects,
+    recentPRs,
+  };
+}
+
+const EXCERPT_LENGTH = 280;
+
+/** `reviews` are the reviews looked at, `reviewedPRs` how many pull requests the host says were reviewed. */
+export function summarizeReviewActivity(reviews: ReviewGiven[], reviewedPRs: number): ReviewActivity {
+  const texts = reviews.flatMap((review) => [review.body ?? '', ...review.comments]).filter((text) => text.trim());
+  const inlineComments = reviews.reduce((sum, review) => sum + review.comments.length, 0);
+
+  const repoCounts = new Map<string, number>();
+  for (const review of reviews) {
+    repoCounts.set(review.repo, (repoCounts.get(review.repo) ?? 0) + 1);
+  }
+
+  const recentReviews = [...reviews]
+    .sort((a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime())
+    .slice(0, 10)
+    .map((review) => {
+      const text = [review.body ?? '', ...review.comments].find((candidate) => candidate.trim())?.trim() ?? null;
+      return {
+        repo: review.repo,
+        number: review.number,
+        html_url: review.html_url,
+        state: review.state,
+        submitted_at: review.submitted_at,
+        comments: review.comments.length,
+        excerpt: text && text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text,
+      };
+    });
+
+  return {
+    reviewedPRs,
+    totalReviews: reviews.length,
+    approvals: reviews.filter((review) => review.state === 'approved').length,
+    changesRequested: reviews.filter((review) => review.state === 'changes_requested').length,
+    commentOnly: reviews.filter((review) => review.state === 'commented').length,
+    inlineComments,
+    averageCommentsPerReview: reviews.length > 0 ? Math.round((inlineComments / reviews.length) * 10) / 10 : 0,
+    averageCommentLength: texts.length > 0
+      ? Math.round(texts.reduce((sum, text) => sum + text.trim().length, 0) / texts.length)
+      : 0,
+    repos: [...repoCounts].sort((a, b) => b[1] - a[1]).map(([repo]) => repo).slice(0, 10),
+    recentReviews,
+  };
+}
+
+/** `starred` is ordered most recent first. */
+export function summarizeStarred(starred: StarredRepo[], totalStarred = starred.length): StarredRepos {
+  const languageCount: Record<string, number> = {};
+  const recentStars = starred.slice(0, 10);
+  for (const repo of recentStars) {
+    if (repo.language) {
+      languageCount[repo.language] = (languageCount[repo.language] || 0) + 1;
+    }
+  }
+
+  const topStarredLanguages = Object.entries(languageCount)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([lang]) => lang);
+
+  return {
+    totalStarred,
+    topStarredLanguages,
+    recentStars,
+  };
+}
@@ -0,0 +1,334 @@
+import { z } from 'genkit';
+
+import { RepoClassification, isOriginalWork } from './repo-classification';
+
+export const README_TOPICS = ['installation', 'usage', 'development', 'license'] as const;
+export const README_COMPLETENESS = ['minimal', 'partial', 'complete'] as const;
+
+export const codeSnippetSchema = z.object({
+  path: z.string(),
+  html_url: z.string(),
+  kind: z.enum(['source', 'test']),
+  lines: z.number().describe('Lines in the whole file'),
+  excerpt: z.string().describe('The first lines of the file'),
+});
+
+export const repoCodeSampleSchema = z.object({
+  repo: z.string().describe('Repository as owner/name'),
+  html_url: z.string(),
+  language: z.string().nullable(),
+  files: z.number().describe('Files in the tree, excluding vendored and generated ones'),
+  sourceFiles: z.number().describe('Source files other than tests'),
+  testFiles: z.number(),
+  testRatio: z.number().describe('Test files per source file'),
+  ci: z.array(z.string()).describe('Configured CI systems, e.g. GitHub Actions'),
+  linters: z.array(z.string()).describe('Configured linters and formatters, e.g. ESLint, Prettier'),
+  readme: z
+    .object({
+      path: z.string(),
+      length: z.number().describe('Characters'),
+      topics: z.array(z.enum(README_TOPICS)).describe('Topics that have a heading of their own'),
+      completeness: z.enum(README_COMPLETENESS),
+    })
+    .nullable()
+    .describe('Null when the repository has no README'),
+  license: z.string().nullable().describe('Path of the license file'),
+  manifests: z.array(z.string()).describe('Dependency manifests, e.g. package.json, go.mod'),
+  fileSizes: z
+    .object({
+      measured: z.number().describe('Source files whose size is known'),
+      medianBytes: z.number(),
+      p90Bytes: z.number(),
+      largestBytes: z.number(),
+      largestPath: z.string(),
+    })
+    .nullable(),
+  truncated: z.boolean().describe('The tree was larger than the part that was read'),
+  snippets: z.array(codeSnippetSchema),
+  account: z.string().optional().describe('Id of the account the repository belongs to'),
+});
+
+// Static signals and representative source files from the candidate's most significant repos
+export const codeSampleSchema = z.object({
+  sampledRepos: z.number(),
+  withTests: z.number(),
+  withCI: z.number(),
+  withLinters: z.number(),
+  withLicense: z.number(),
+  repos: z.array(repoCodeSampleSchema),
+});
+
+export type CodeSnippet = z.infer<typeof codeSnippetSchema>;
+export type RepoCodeSample = z.infer<typeof repoCodeSampleSchema>;
+export type CodeSample = z.infer<typeof codeSampleSchema>;
+
+/** A file in a repository tree; `size` is in bytes and unknown on hosts whose tree API omits it. */
+export interface RepoFile {
+  path: string;
+  size?: number;
+}
+
+/** What providers know about a repository chosen for sampling. */
+export interface SampledRepo {
+  full_name: string;
+  html_url: string;
+  language: string | null;
+  stargazers_count: number;
+  forks: number;
+  pushed_at: string;
+  fork?: boolean;
+  classification?: RepoClassification;
+}
+
+export const CODE_SAMPLE_REPOS = 3;
+// Files larger than this are counted but never read
+const MAX_READ_BYTES = 100_000;
+const SNIPPET_LINES = 60;
+const SNIPPET_CHARS = 3000;
+
+const SOURCE_EXTENSIONS = new Set([
+  'c', 'cc', 'clj', 'cpp', 'cs', 'cxx', 'dart', 'elm', 'erl', 'ex', 'exs', 'fs', 'go', 'groovy', 'h', 'hpp',
+  'hs', 'java', 'jl', 'js', 'jsx', 'kt', 'kts', 'lua', 'm', 'mjs', 'cjs', 'ml', 'mm', 'nim', 'php', 'pl', 'py',
+  'r', 'rb', 'rs', 'scala', 'sh', 'sql', 'svelte', 'swift', 'ts', 'tsx', 'vue', 'zig',
+]);
+const IGNORED_PATH =
+  /(^|\/)(node_modules|vendor|third_party|dist|build|out|target|coverage|__pycache__|Pods|\.git|\.next)\/|\.min\.(js|css)$|\.d\.ts$|\.generated\.|\.pb\.go$|_pb2\.py$/;
+const TEST_PATH =
+  /(^|\/)(tests?|__tests__|specs?|e2e)\/|[._-](test|spec)\.[^/]+$|(^|\/)test_[^/]+\.py$|Tests?\.(java|kt|cs|swift|php)$/;
+const README_PATH = /^readme(\.(md|markdown|rst|txt|adoc))?$/i;
+const LICENSE_PATH = /^(licen[cs]e|copying)(\.\w+)?$/i;
+const MANIFESTS = new Set([
+  'package.json', 'requirements.txt', 'pyproject.toml', 'setup.py', 'Pipfile', 'go.mod', 'Cargo.toml', 'pom.xml',
+  'build.gradle', 'build.gradle.kts', 'Gemfile', 'composer.json', 'mix.exs', 'pubspec.yaml', 'Package.swift',
+  'CMakeLists.txt', 'deno.json',
+]);
+
+const CI_CONFIGS: [RegExp, string][] = [
+  [/^\.github\/workflows\/[^/]+\.ya?ml$/, 'GitHub Actions'],
+  [/^\.gitlab-ci\.ya?ml$/, 'GitLab CI'],
+  [/^bitbucket-pipelines\.ya?ml$/, 'Bitbucket Pipelines'],
+  [/^\.circleci\/config\.ya?ml$/, 'CircleCI'],
+  [/^\.travis\.ya?ml$/, 'Travis CI'],
+  [/^Jenkinsfile$/, 'Jenkins'],
+  [/^azure-pipelines\.ya?ml$/, 'Azure Pipelines'],
+];
+
+// Matched against file names anywhere outside vendored directories
+const LINTER_CONFIGS: [RegExp, string][] = [
+  [/^(\.eslintrc(\.\w+)?|eslint\.config\.[cm]?[jt]s)$/, 'ESLint'],
+  [/^(\.prettierrc(\.\w+)?|prettier\.config\.[cm]?js)$/, 'Prettier'],
+  [/^biome\.jsonc?$/, 'Biome'],
+  [/^\.?ruff\.toml$/, 'Ruff'],
+  [/^\.flake8$/, 'Flake8'],
+  [/^\.pylintrc$/, 'Pylint'],
+  [/^\.golangci\.ya?ml$/, 'golangci-lint'],
+  [/^\.rubocop\.yml$/, 'RuboCop'],
+  [/^\.?rustfmt\.toml$/, 'rustfmt'],
+  [/^\.?clippy\.toml$/, 'Clippy'],
+  [/^\.clang-format$/, 'clang-format'],
+  [/^\.clang-tidy$/, 'clang-tidy'],
+  [/^\.stylelintrc(\.\w+)?$/, 'Stylelint'],
+  [/^\.swiftlint\.ya?ml$/, 'SwiftLint'],
+  [/^checkstyle\.xml$/, 'Checkstyle'],
+  [/^\.editorconfig$/, 'EditorConfig'],
+  [/^\.pre-commit-config\.ya?ml$/, 'pre-commit'],
+];
+
+const README_TOPIC_HEADINGS: Record<(typeof README_TOPICS)[number], RegExp> = {
+  installation: /install|setup|getting started|quick ?start|requirements/i,
+  usage: /usage|example|how to use|api|configuration/i,
+  development: /develop|test|contribut|build|running/i,
+  license: /licen[cs]e/i,
+};
+
+/** Encodes each segment of a file path for use in an API path. */
+export const encodeFilePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+const fileName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const directory = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+const extension = (path: string) => {
+  const name = fileName(path);
+  return name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+};
+const isSource = (file: RepoFile) => SOURCE_EXTENSIONS.has(extension(file.path));
+const isTest = (file: RepoFile) => TEST_PATH.test(file.path);
+
+/**
+ * The repositories worth sampling: original work with a language, most starred
+ * and forked first, then the most recently pushed.
+ */
+export function significantRepos<T extends SampledRepo>(repos: T[], count = CODE_SAMPLE_REPOS): T[] {
+  return repos
+    .filter((repo) => !repo.fork && isOriginalWork(repo) && repo.language)
+    .sort(
+      (a, b) =>
+        b.stargazers_count + b.forks - (a.stargazers_count + a.forks) || b.pushed_at.localeCompare(a.pushed_at),
+    )
+    .slice(0, count);
+}
+
+/**
+ * Picks source files of the repository's dominant extension that are close to
+ * its median file size, each from a different directory, so the sample shows
+ * everyday code rather than the largest or most trivial files. Without sizes
+ * the shallowest files are taken.
+ */
+function representativeFiles(files: RepoFile[], count: number): RepoFile[] {
+  const readable = files.filter((file) => file.size === undefined || (file.size >= 200 && file.size <= MAX_READ_BYTES));
+  const extensionCounts = new Map<string, number>();
+  for (const file of readable) {
+    extensionCounts.set(extension(file.path), (extensionCounts.get(extension(file.path)) ?? 0) + 1);
+  }
+  const [dominant] = [...extensionCounts.entries()].sort((a, b) => b[1] - a[1]);
+  const candidates = readable.filter((file) => extension(file.path) === dominant?.[0]);
+  const target = percentile(candidates.flatMap((file) => file.size ?? []), 50) ?? 0;
+  const depth = (file: RepoFile) => file.path.split('/').length;
+  candidates.sort(
+    (a, b) =>
+      Math.abs((a.size ?? target) - target) - Math.abs((b.size ?? target) - target) ||
+      depth(a) - depth(b) ||
+      a.path.localeCompare(b.path),
+  );
+
+  const directories = new Set<string>();
+  return candidates
+    .filter((file) => !directories.has(directory(file.path)) && directories.add(directory(file.path)))
+    .slice(0, count);
+}
+
+const relevantFiles = (files: RepoFile[]) => files.filter((file) => !IGNORED_PATH.test(file.path));
+
+/** The README plus a few representative source files and one test file, which providers then read. */
+export function filesToRead(files: RepoFile[]): string[] {
+  const relevant = relevantFiles(files);
+  const readme = relevant.find((file) => !file.path.includes('/') && README_PATH.test(file.path));
+  const sources = relevant.filter((file) => isSource(file) && !isTest(file));
+  const tests = relevant.filter((file) => isSource(file) && isTest(file));
+  return [
+    ...(readme ? [readme.path] : []),
+    ...representativeFiles(sources, 3).map((file) => file.path),
+    ...representativeFiles(tests, 1).map((file) => file.path),
+  ];
+}
+
+/**
+ * Reads the files picked by `filesToRead`, skipping any that cannot be read
+ * (removed since the tree was listed, binary or too large); fails only when
+ * none of them could be.
+ */
+export async function readFiles(
+  paths: string[],
+  read: (path: string) => Promise<string>,
+): Promise<Map<string, string>> {
+  const results = await Promise.allSettled(paths.map(async (path) => [path, await read(path)] as const));
+  const contents = new Map(results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : [])));
+  const failed = results.flatMap((result) => (result.status === 'rejected' ? [result.reason as unknown] : []));
+  if (failed.length > 0 && contents.size === 0) throw failed[0];
+  if (failed.length > 0) {
+    console.warn(`Skipped ${failed.length} of ${paths.length} sampled files that could not be read`);
+  }
+  return contents;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function readmeSummary(path: string, content: string): NonNullable<RepoCodeSample['readme']> {
+  // ATX headings (`## Usage`) and setext ones (a line underlined with = or -)
+  const lines = content.split('\n');
+  const headings = lines.flatMap((line, i) => {
+    if (/^#{1,6}\s/.test(line)) return [line.replace(/^#+\s*/, '')];
+    return line.trim() && /^\s*(=+|-+)\s*$/.test(lines[i + 1] ?? '') ? [line] : [];
+  });
+  const topics = README_TOPICS.filter((topic) => headings.some((heading) => README_TOPIC_HEADINGS[topic].test(heading)));
+  const completeness =
+    content.length < 300 || topics.length === 0 ? 'minimal' : topics.length < 3 ? 'partial' : 'complete';
+  return { path, length: content.length, topics, completeness };
+}
+
+function snippet(path: string, content: string, kind: CodeSnippet['kind'], fileUrl: (path: string) => string): CodeSnippet {
+  const lines = content.split('\n');
+  return {
+    path,
+    html_url: fileUrl(path),
+    kind,
+    lines: lines.length,
+    excerpt: lines.slice(0, SNIPPET_LINES).join('\n').slice(0, SNIPPET_CHARS),
+  };
+}
+
+/**
+ * Computes a repository's static signals from its file list and the files
+ * read by `filesToRead`. Sizes the tree did not report are taken from the
+ * files that were read.
+ */
+export function summarizeRepoCode(
+  repo: SampledRepo,
+  files: RepoFile[],
+  contents: Map<string, string>,
+  fileUrl: (path: string) => string,
+  truncated = false,
+): RepoCodeSample {
+  const relevant = relevantFiles(files).map((file) => ({
+    ...file,
+    size: file.size ?? (contents.has(file.path) ? Buffer.byteLength(contents.get(file.path) ?? '') : undefined),
+  }));
+  const code = relevant.filter(isSource);
+  const testFiles = code.filter(isTest).length;
+  const sourceFiles = code.length - testFiles;
+  const root = relevant.filter((file) => !file.path.includes('/'));
+  const readme = root.find((file) => README_PATH.test(file.path));
+  const readmeContent = readme && contents.get(readme.path);
+  const measured = code.filter((file): file is RepoFile & { size: number } => file.size !== undefined);
+  const largest = measured.reduce<(RepoFile & { size: number }) | undefined>(
+    (max, file) => (!max || file.size > max.size ? file : max),
+    undefined,
+  );
+
+  return {
+    repo: repo.full_name,
+    html_url: repo.html_url,
+    language: repo.language,
+    files: relevant.length,
+    sourceFiles,
+    testFiles,
+    testRatio: sourceFiles > 0 ? Math.round((testFiles / sourceFiles) * 100) / 100 : 0,
+    ci: CI_CONFIGS.filter(([pattern]) => relevant.some((file) => pattern.test(file.path))).map(([, name]) => name),
+    linters: LINTER_CONFIGS.filter(([pattern]) => relevant.some((file) => pattern.test(fileName(file.path)))).map(
+      ([, name]) => name,
+    ),
+    readme: readme && readmeContent !== undefined ? readmeSummary(readme.path, readmeContent) : null,
+    license: root.find((file) => LICENSE_PATH.test(file.path))?.path ?? null,
+    manifests: relevant
+      .filter((file) => MANIFESTS.has(fileName(file.path)) || extension(file.path) === 'csproj')
+      .map((file) => file.path)
+      .slice(0, 10),
+    fileSizes: largest
+      ? {
+          measured: measured.length,
+          medianBytes: percentile(measured.map((file) => file.size), 50) ?? 0,
+          p90Bytes: percentile(measured.map((file) => file.size), 90) ?? 0,
+          largestBytes: largest.size,
+          largestPath: largest.path,
+        }
+      : null,
+    truncated,
+    snippets: code
+      .filter((file) => contents.has(file.path))
+      .map((file) => snippet(file.path, contents.get(file.path) ?? '', isTest(file) ? 'test' : 'source', fileUrl)),
+  };
+}
+
+export function summarizeCodeSample(repos: RepoCodeSample[]): CodeSample {
+  return {
+    sampledRepos: repos.length,
+    withTests: repos.filter((repo) => repo.testFiles > 0).length,
+    withCI: repos.filter((repo) => repo.ci.length > 0).length,
+    withLinters: repos.filter((repo) => repo.linters.length > 0).length,
+    withLicense: repos.filter((repo) => repo.license).length,
+    repos,
+  };
+}
@@ -0,0 +1,47 @@
+import { compareCandidates } from './comparison';
+import { DeveloperEvidence } from './evidence';
+import { gatherLinkedEvidence } from './linked-accounts';
+import { SavedRun } from './reports';
+
+const NOW = new Date('2026-10-01T00:00:00Z').getTime();
+
+const savedRun = (evidence: DeveloperEvidence, input: SavedRun['input']) =>
+  ({
+    reportId: `${input.provider}-${input.username}`,
+    input,
+    evidence,
+    assessment: { overallScore: 6, recommendation: 'Hire', scorecard: {} },
+  }) as unknown as SavedRun;
+
+describe('compareCandidates', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    // Gathering evidence logs every tool call
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('checks citations against the candidate on the host the point names, not a namesake elsewhere', async () => {
+    const github = await gatherLinkedEvidence([{ username: 'octo-dev', provider: 'github' }]);
+    // Someone else with the same username on GitLab, with none of the GitHub user's pull requests
+    const gitlab: DeveloperEvidence = {
+      ...github,
+      provider: 'gitlab',
+      accounts: undefined,
+      pullRequests: { ...github.pullRequests, recentPRs: [] },
+    };
+
+    const comparison = await compareCandidates([
+      savedRun(github, { username: 'octo-dev', provider: 'github' }),
+      savedRun(gitlab, { username: 'octo-dev', provider: 'gitlab' }),
+    ]);
+
+    expect(comparison.droppedCitations).toEqual([]);
+    expect(comparison.points).toHaveLength(1);
+    expect(comparison.points[0]).toMatchObject({ candidate: 'github::octo-dev', username: 'octo-dev' });
+    expect(comparison.points[0].citations[0].url).toBe('https://github.com/octo-dev/taskboard/pull/14');
+  });
+});
@@ -0,0 +1,109 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { z } from 'genkit';
+
+import { CitationCheck, citedFindingSchema, createCitationCheck } from './citations';
+import { evidenceHostLabel } from './evidence';
+import { blindEvidence } from './fairness';
+import { ai } from './genkit';
+import { evidenceBlock } from './prompt';
+import { SavedRun } from './reports';
+import { SCORE_DIMENSIONS, scoreDimensions } from './scoring';
+
+export const MIN_COMPARED_CANDIDATES = 2;
+export const MAX_COMPARED_CANDIDATES = 4;
+
+// A difference between the candidates, attributed to the one it is about
+const comparisonPointSchema = citedFindingSchema.extend({
+  candidate: z.string().describe('Key of the candidate the point is about'),
+});
+
+// What the model is asked to produce when comparing finalists
+export const modelComparisonSchema = z.object({
+  summary: z.string().describe('Three to five sentences comparing the candidates'),
+  points: z.array(comparisonPointSchema).max(8),
+});
+
+export const candidateComparisonSchema = modelComparisonSchema.extend({
+  points: z.array(comparisonPointSchema.extend({ username: z.string() })),
+  usernames: z.array(z.string()),
+  droppedCitations: z.array(z.string()),
+});
+
+export type CandidateComparison = z.infer<typeof candidateComparisonSchema>;
+
+// The same username can belong to different people on different hosts
+function comparisonKey({ input }: SavedRun): string {
+  return `${input.provider}:${input.baseUrl ?? ''}:${input.username}`.toLowerCase();
+}
+
+function candidateSection(run: SavedRun): string {
+  const { assessment } = run;
+  const scorecard = SCORE_DIMENSIONS.flatMap((dimension) => {
+    const score = assessment.scorecard[dimension]?.score;
+    return score === undefined ? [] : [`${scoreDimensions[dimension].label} ${score}`];
+  }).join(', ');
+
+  return `
+        ## ${run.evidence.username} (${evidenceHostLabel(run.evidence)}), key ${comparisonKey(run)}
+        Existing assessment: overall ${assessment.overallScore}/10, ${assessment.recommendation}. Scorecard: ${scorecard}.
+        Evidence (JSON):
+        ${evidenceBlock(run.input.blind ? blindEvidence(run.evidence) : run.evidence)}
+  `;
+}
+
+/**
+ * Writes a comparative summary of saved runs. The model only sees the evidence
+ * and scores those runs were based on, and every citation is checked against
+ * the evidence of the candidate the point is about.
+ */
+export async function compareCandidates(runs: SavedRun[]): Promise<CandidateComparison> {
+  const usernames = runs.map((run) => run.evidence.username);
+  const keys = runs.map(comparisonKey);
+  const prompt = `
+        You are InsightRank, comparing finalists for the same position using only the code host evidence (GitHub, GitLab or Bitbucket) collected for each of them.
+
+        ${runs.map(candidateSection).join('\n')}
+
+        Write a balanced comparison:
+        **Summary:** Three to five sentences on how the candidates differ in code quality, collaboration, focus areas and activity.
+        **Points:** Up to 8 concrete differences. Each point is about one candidate (set "candidate" to that candidate's key, one of: ${keys.join(', ')}) and cites that candidate's artifacts:
+        - repo: { "type": "repo", "repo": "<full_name>" }
+        - pullRequest: { "type": "pullRequest", "repo": "<repo>", "prNumber": <number> }
+        - commit: { "type": "commit", "repo": "<repo>", "sha": "<sha>" }
+        Only cite artifacts that appear in that candidate's evidence; other citations are discarded.
+  `;
+
+  const { output } = await ai.generate({
+    prompt,
+    output: { schema: modelComparisonSchema },
+    config: { temperature: 0.3 },
+  });
+  if (!output) {
+    throw new HttpsError('internal', 'The model did not return a valid comparison.', {
+      reason: 'INVALID_COMPARISON',
+    });
+  }
+
+  const checks = new Map<string, { username: string; check: CitationCheck }>(
+    runs.map((run) => [
+      comparisonKey(run),
+      { username: run.evidence.username, check: createCitationCheck(run.evidence) },
+    ]),
+  );
+  const droppedCitations: string[] = [];
+  const points = output.points.flatMap((point, i) => {
+    const candidate = checks.get(point.candidate.toLowerCase());
+    if (!candidate) {
+      droppedCitations.push(`points[${i}]: unknown candidate ${point.candidate}`);
+      return [];
+    }
+    return [{ ...candidate.check.verify(point, `points[${i}]`), username: candidate.username }];
+  });
+
+  return {
+    ...output,
+    points,
+    usernames,
+    droppedCitations: [...droppedCitations, ...[...checks.values()].flatMap(({ check }) => check.dropped)],
+  };
+}
@@ -0,0 +1,145 @@
+import { z } from 'genkit';
+
+import { CodeHostRateLimitError } from './code-host-client';
+import { DeveloperEvidence } from './evidence';
+import { insufficientEvidence } from './fairness';
+import { isOriginalWork } from './repo-classification';
+
+// Evidence the assessment can go without; the profile and repos are required
+export const OPTIONAL_EVIDENCE = [
+  'languages',
+  'pullRequests',
+  'commits',
+  'starred',
+  'externalContributions',
+  'reviews',
+  'codeSample',
+] as const;
+
+export type OptionalEvidence = (typeof OPTIONAL_EVIDENCE)[number];
+
+const optionalEvidenceLabels: Record<OptionalEvidence, string> = {
+  languages: 'Language stats',
+  pullRequests: 'Pull requests',
+  commits: 'Commit history',
+  starred: 'Starred repos',
+  externalContributions: 'External contributions',
+  reviews: 'Reviews given',
+  codeSample: 'Code sample',
+};
+
+// A code host tool that failed, leaving its part of the evidence empty
+export const toolFailureSchema = z.object({
+  step: z.enum(OPTIONAL_EVIDENCE),
+  account: z.string(),
+  reason: z.enum(['rate_limited', 'failed']),
+  message: z.string(),
+});
+
+export type ToolFailure = z.infer<typeof toolFailureSchema>;
+
+export const CONFIDENCE_LEVELS = ['low', 'medium', 'high'] as const;
+
+export const dataCoverageSchema = z.object({
+  repos: z.number().describe('Recently pushed repos analyzed'),
+  originalRepos: z.number(),
+  pullRequests: z.number().describe("Pull requests to the candidate's own and other people's repos"),
+  commits: z.number(),
+  reviews: z.number().describe('Pull requests the candidate reviewed'),
+  sampledRepos: z.number(),
+  firstActivity: z.string().nullable().describe('Oldest dated activity in the evidence'),
+  lastActivity: z.string().nullable(),
+  spanDays: z.number(),
+  failures: z.array(toolFailureSchema),
+  confidence: z.enum(CONFIDENCE_LEVELS),
+  reasons: z.array(z.string()).describe('What lowered the confidence'),
+});
+
+export type DataCoverage = z.infer<typeof dataCoverageSchema>;
+
+/**
+ * Records a failed tool call. Any error counts, including unexpected responses
+ * a provider could not parse: an optional step only ever leaves its part of
+ * the evidence empty, and only the profile and repos steps may fail a run.
+ */
+export function toolFailure(step: OptionalEvidence, account: string, error: unknown): ToolFailure {
+  return {
+    step,
+    account,
+    reason: error instanceof CodeHostRateLimitError ? 'rate_limited' : 'failed',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+// Without these the scorecard rests on repos alone
+const CORE_EVIDENCE: readonly OptionalEvidence[] = ['pullRequests', 'commits'];
+
+// A high confidence assessment needs at least this much of each
+const HIGH_CONFIDENCE = { originalRepos: 5, pullRequests: 10, commits: 50, spanDays: 180 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function activityTimes(evidence: DeveloperEvidence): number[] {
+  return [
+    ...evidence.repos.map((repo) => repo.pushed_at),
+    ...evidence.pullRequests.recentPRs.map((pr) => pr.created_at),
+    ...evidence.commitAnalysis.recentCommits.map((commit) => commit.date),
+    ...(evidence.externalContributions?.recentPRs ?? []).map((pr) => pr.created_at),
+    ...(evidence.reviewActivity?.recentReviews ?? []).map((review) => review.submitted_at),
+  ]
+    .map((date) => new Date(date).getTime())
+    .filter((time) => !Number.isNaN(time));
+}
+
+/**
+ * Counts what the assessment rests on and rates the confidence it deserves:
+ * low when the evidence is too sparse to judge or pull requests or commits
+ * could not be fetched, high only with plenty of each kind of work over at
+ * least half a year and every tool succeeding, otherwise medium.
+ */
+export function dataCoverage(evidence: DeveloperEvidence): DataCoverage {
+  const originalRepos = evidence.repos.filter(isOriginalWork).length;
+  const pullRequests = evidence.pullRequests.totalPRs + (evidence.externalContributions?.totalPRs ?? 0);
+  const commits = evidence.commitAnalysis.totalCommits;
+  const failures = evidence.failures ?? [];
+
+  const times = activityTimes(evidence);
+  const first = times.length > 0 ? Math.min(...times) : null;
+  const last = times.length > 0 ? Math.max(...times) : null;
+  const spanDays = first !== null && last !== null ? Math.round((last - first) / DAY_MS) : 0;
+
+  const sparse = insufficientEvidence(evidence);
+  const coreFailures = failures.filter((failure) => CORE_EVIDENCE.includes(failure.step));
+  const thin = [
+    ...(originalRepos < HIGH_CONFIDENCE.originalRepos ? [`Only ${plural(originalRepos, 'original repo')}`] : []),
+    ...(pullRequests < HIGH_CONFIDENCE.pullRequests ? [`Only ${plural(pullRequests, 'pull request')}`] : []),
+    ...(commits < HIGH_CONFIDENCE.commits ? [`Only ${plural(commits, 'recent commit')}`] : []),
+    ...(spanDays < HIGH_CONFIDENCE.spanDays ? [`Activity spans only ${plural(spanDays, 'day')}`] : []),
+  ];
+  const reasons = [
+    ...failures.map((failure) =>
+      failure.reason === 'rate_limited'
+        ? `${optionalEvidenceLabels[failure.step]} hit the rate limit on ${failure.account}`
+        : `${optionalEvidenceLabels[failure.step]} could not be fetched from ${failure.account}`,
+    ),
+    // The sparse evidence message already gives the counts
+    ...(sparse ? [sparse] : thin),
+  ];
+
+  return {
+    repos: evidence.repos.length,
+    originalRepos,
+    pullRequests,
+    commits,
+    reviews: evidence.reviewActivity?.reviewedPRs ?? 0,
+    sampledRepos: evidence.codeSample?.sampledRepos ?? 0,
+    firstActivity: first !== null ? new Date(first).toISOString() : null,
+    lastActivity: last !== null ? new Date(last).toISOString() : null,
+    spanDays,
+    failures,
+    confidence: sparse || coreFailures.length > 0 ? 'low' : reasons.length > 0 ? 'medium' : 'high',
+    reasons,
+  };
+}
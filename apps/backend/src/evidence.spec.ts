@@ -0,0 +1,42 @@
+import { gatherDeveloperEvidence } from './evidence';
+import { GitHubProvider } from './providers/github';
+
+const NOW = new Date('2026-10-01T00:00:00Z').getTime();
+
+describe('gatherDeveloperEvidence', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    // Gathering evidence logs every tool call
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records any error from an optional step as a failure and carries on', async () => {
+    jest
+      .spyOn(GitHubProvider.prototype, 'fetchReviewActivity')
+      .mockRejectedValue(new TypeError("Cannot read properties of undefined (reading 'login')"));
+
+    const evidence = await gatherDeveloperEvidence({ username: 'octo-dev', provider: 'github' });
+
+    expect(evidence.failures).toEqual([
+      {
+        step: 'reviews',
+        account: 'github:octo-dev',
+        reason: 'failed',
+        message: "Cannot read properties of undefined (reading 'login')",
+      },
+    ]);
+    expect(evidence.reviewActivity?.totalReviews).toBe(0);
+    expect(evidence.pullRequests.totalPRs).toBe(4);
+  });
+
+  it('fails the run when a required step fails', async () => {
+    jest.spyOn(GitHubProvider.prototype, 'fetchRepos').mockRejectedValue(new TypeError('Unexpected response'));
+
+    await expect(gatherDeveloperEvidence({ username: 'octo-dev', provider: 'github' })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,260 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { z } from 'genkit';
+
+import {
+  CodeHostInput,
+  accountId,
+  codeHostLabels,
+  codeHostSchema,
+  commitAnalysisSchema,
+  externalContributionsSchema,
+  languageStatsSchema,
+  profileSchema,
+  pullRequestStatsSchema,
+  reposSchema,
+  reviewActivitySchema,
+  starredReposSchema,
+  summarizeCommits,
+  summarizeExternalContributions,
+  summarizeLanguageUsage,
+  summarizePullRequests,
+  summarizeReviewActivity,
+  summarizeStarred,
+} from './code-host';
+import { codeSampleSchema, summarizeCodeSample } from './code-sample';
+import { isOriginalWork } from './repo-classification';
+import { CodeHostAuthError, CodeHostNotFoundError, CodeHostRateLimitError } from './code-host-client';
+import { OptionalEvidence, ToolFailure, toolFailure, toolFailureSchema } from './coverage';
+import {
+  fetchCodeSample,
+  fetchCommitAnalysis,
+  fetchExternalContributions,
+  fetchLanguageStats,
+  fetchPullRequests,
+  fetchRepos,
+  fetchReviewActivity,
+  fetchStarredRepos,
+  fetchUserProfile,
+} from './code-host-tools';
+import { getCodeHostProvider } from './providers';
+import { ProgressReporter, trackStep } from './progress';
+
+// One of the candidate's accounts the evidence was gathered from
+export const evidenceAccountSchema = z.object({
+  id: z.string().describe('Referenced by the `account` field of evidence items'),
+  provider: codeHostSchema,
+  username: z.string(),
+  webUrl: z.string(),
+  profileUrl: z.string(),
+  name: z.string().nullable(),
+});
+
+export type EvidenceAccount = z.infer<typeof evidenceAccountSchema>;
+
+// A repo left out of the evidence because another linked account has the same repo
+export const duplicateRepoSchema = z.object({
+  repo: z.string(),
+  account: z.string(),
+  duplicateOf: z.string(),
+  reason: z.enum(['fork', 'mirror']),
+});
+
+// Everything the model is allowed to base an assessment on
+export const developerEvidenceSchema = z.object({
+  username: z.string(),
+  // Both absent on runs saved before other hosts were supported, which are all GitHub
+  provider: codeHostSchema.optional(),
+  webUrl: z.string().optional().describe('Web root that repo paths are relative to'),
+  collectedAt: z.string(),
+  profile: profileSchema,
+  repos: reposSchema,
+  languageStats: languageStatsSchema,
+  pullRequests: pullRequestStatsSchema,
+  commitAnalysis: commitAnalysisSchema,
+  starredRepos: starredReposSchema,
+  // Absent on runs saved before external contributions were collected
+  externalContributions: externalContributionsSchema.optional(),
+  // Absent on runs saved before reviews given were collected
+  reviewActivity: reviewActivitySchema.optional(),
+  // Absent on runs saved before code was sampled
+  codeSample: codeSampleSchema.optional(),
+  // Absent on runs saved before linked accounts were supported
+  accounts: z.array(evidenceAccountSchema).optional(),
+  duplicates: z.array(duplicateRepoSchema).optional(),
+  // Tools that failed and left their part of the evidence empty; absent on runs saved before they were tolerated
+  failures: z.array(toolFailureSchema).optional(),
+});
+
+export type DeveloperEvidence = z.infer<typeof developerEvidenceSchema>;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Runs every code host tool up front so each assessment of the same username
+ * sees the same data, regardless of which tools the model would have chosen to
+ * call. Every item is tagged with the account it came from. Only the profile
+ * and repos are required: when another tool fails or is rate limited its part
+ * of the evidence is left empty and the failure is recorded.
+ */
+export async function gatherDeveloperEvidence(
+  input: CodeHostInput,
+  report: ProgressReporter = () => undefined,
+): Promise<DeveloperEvidence> {
+  const { username, provider } = input;
+  const account = accountId(input);
+  console.log(`Gathering ${provider} evidence for ${username}`);
+
+  const failures: ToolFailure[] = [];
+  const optionalStep = <T>(
+    step: OptionalEvidence,
+    work: () => Promise<T>,
+    empty: T,
+    describe: (result: T) => string,
+  ) =>
+    trackStep(
+      report,
+      step,
+      () =>
+        work().catch((error: unknown) => {
+          const failure = toolFailure(step, account, error);
+          console.warn(`Continuing without ${step} for ${account}:`, failure.message);
+          failures.push(failure);
+          return empty;
+        }),
+      (result) => {
+        const failure = failures.find((candidate) => candidate.step === step);
+        if (!failure) return describe(result);
+        return failure.reason === 'rate_limited' ? 'Skipped: rate limited' : 'Skipped: request failed';
+      },
+    );
+
+  const reposStep = trackStep(report, 'repos', () => fetchRepos(input), (repos) =>
+    `Fetched ${plural(repos.length, 'recently pushed repo')}, ${repos.filter(isOriginalWork).length} original`,
+  );
+
+  const [
+    profile,
+    repos,
+    languageStats,
+    pullRequests,
+    commitAnalysis,
+    starredRepos,
+    externalContributions,
+    reviewActivity,
+    codeSample,
+  ] = await Promise.all([
+    trackStep(report, 'profile', () => fetchUserProfile(input), (profile) =>
+      `Fetched profile for ${profile.name ?? profile.login}`,
+    ),
+    reposStep,
+    optionalStep(
+      'languages',
+      () => fetchLanguageStats(input),
+      summarizeLanguageUsage([], 'bytes', { forks: 0, archived: 0, templates: 0 }),
+      (stats) =>
+        `Weighed code in ${plural(stats.totalRepos, 'repo')} across ${plural(stats.topLanguages.length, 'top language')}`,
+    ),
+    optionalStep('pullRequests', () => fetchPullRequests(input), summarizePullRequests([], 0, 0), (prs) =>
+      `Analyzed ${plural(prs.totalPRs, 'pull request')}`,
+    ),
+    optionalStep('commits', () => fetchCommitAnalysis(input), summarizeCommits([]), (commits) =>
+      `Analyzed ${plural(commits.totalCommits, 'commit')} from the last ${commits.windowDays} days`,
+    ),
+    optionalStep('starred', () => fetchStarredRepos(input), summarizeStarred([]), (starred) =>
+      `Fetched ${plural(starred.totalStarred, 'starred repo')}`,
+    ),
+    optionalStep(
+      'externalContributions',
+      () => fetchExternalContributions(input),
+      summarizeExternalContributions([], []),
+      (external) => `Found ${plural(external.totalPRs, 'pull request')} to other people's repos`,
+    ),
+    optionalStep('reviews', () => fetchReviewActivity(input), summarizeReviewActivity([], 0), (reviews) =>
+      `Found ${plural(reviews.reviewedPRs, 'reviewed pull request')}`,
+    ),
+    optionalStep(
+      'codeSample',
+      async () => fetchCodeSample({ ...input, repos: await reposStep }),
+      summarizeCodeSample([]),
+      (sample) =>
+        `Sampled ${plural(sample.sampledRepos, 'repo')}, ${sample.withTests} with tests and ${sample.withCI} with CI`,
+    ),
+  ]).catch((error) => {
+    throw toHttpsError(error, username);
+  });
+
+  const webUrl = getCodeHostProvider(input).webUrl;
+  return {
+    username,
+    provider,
+    webUrl,
+    collectedAt: new Date().toISOString(),
+    profile,
+    repos: repos.map((repo) => ({ ...repo, account })),
+    languageStats,
+    pullRequests: {
+      ...pullRequests,
+      recentPRs: pullRequests.recentPRs.map((pr) => ({ ...pr, account })),
+    },
+    commitAnalysis: {
+      ...commitAnalysis,
+      recentCommits: commitAnalysis.recentCommits.map((commit) => ({ ...commit, account })),
+    },
+    starredRepos: {
+      ...starredRepos,
+      recentStars: starredRepos.recentStars.map((star) => ({ ...star, account })),
+    },
+    externalContributions: {
+      ...externalContributions,
+      recentPRs: externalContributions.recentPRs.map((pr) => ({ ...pr, account })),
+    },
+    reviewActivity: {
+      ...reviewActivity,
+      recentReviews: reviewActivity.recentReviews.map((review) => ({ ...review, account })),
+    },
+    codeSample: {
+      ...codeSample,
+      repos: codeSample.repos.map((repo) => ({ ...repo, account })),
+    },
+    accounts: [{ id: account, provider, username, webUrl, profileUrl: profile.html_url, name: profile.name }],
+    duplicates: [],
+    failures,
+  };
+}
+
+/**
+ * Maps code host client errors onto callable error codes so clients can tell a
+ * missing user from a rate limit (and when to retry) without parsing messages.
+ */
+function toHttpsError(error: unknown, username: string): unknown {
+  if (error instanceof CodeHostNotFoundError) {
+    return new HttpsError('not-found', `${error.host} user "${username}" was not found.`, {
+      reason: 'CODE_HOST_NOT_FOUND',
+      host: error.host,
+    });
+  }
+  if (error instanceof CodeHostRateLimitError) {
+    return new HttpsError('resource-exhausted', `${error.host} API rate limit exceeded.`, {
+      reason: 'CODE_HOST_RATE_LIMITED',
+      host: error.host,
+      resetAt: error.resetAt.toISOString(),
+    });
+  }
+  if (error instanceof CodeHostAuthError) {
+    return new HttpsError('failed-precondition', `${error.host} rejected the configured token.`, {
+      reason: 'CODE_HOST_AUTH_FAILED',
+      host: error.host,
+    });
+  }
+  return error;
+}
+
+/** Web root of the host the evidence was collected from. */
+export function evidenceWebUrl(evidence: DeveloperEvidence): string {
+  return evidence.webUrl ?? 'https://github.com';
+}
+
+/** Display name of the host the evidence was collected from. */
+export function evidenceHostLabel(evidence: DeveloperEvidence): string {
+  return codeHostLabels[evidence.provider ?? 'github'];
+}
@@ -0,0 +1,46 @@
+import { personalAttributes } from './fairness';
+
+describe('personalAttributes', () => {
+  it.each([
+    ['The candidate is 58 years old and may retire soon', ['age']],
+    ["The candidate's family commitments could limit availability", ['family']],
+    ['She is pregnant', ['gender']],
+    ['Their time zone is far from the team', ['location']],
+    ['The developer needs a visa to work here', ['nationality']],
+    ['His accent may make meetings hard', ['nationality']],
+    ['Their medical history is unclear', ['health']],
+    ['The candidate posts about their political views', ['politics']],
+    ['Their avatar looks unprofessional', ['appearance']],
+    // Risk factors are usually written as bullets without a subject
+    ['Requires visa sponsorship', ['nationality']],
+    ['Non-native English speaker', ['nationality']],
+    ['Located in Nigeria, far from HQ', ['location']],
+    ['Based in a distant time zone from the team', ['location']],
+    ['Young parent with limited availability', ['family']],
+    ['Older developer nearing retirement', ['age']],
+    ['Candidate is a new mother', ['family']],
+    ['Pregnant, may need leave soon', ['gender']],
+  ])('flags "%s"', (text, attributes) => {
+    expect(personalAttributes(text)).toEqual(attributes);
+  });
+
+  it.each([
+    'The date utilities ignore time zones in date handling',
+    'Visa payment integration has no retries',
+    'The avatar upload has no size check',
+    'Publishes a family of packages without a changelog',
+    'Fixed a race condition in the job queue',
+    'The health check endpoint is never tested',
+    'Adds photos to the gallery without resizing them',
+    'Their code ignores time zones when scheduling reminders',
+    'They disabled the failing tests instead of fixing them',
+    'Stores medical records without encryption',
+    'Config files are located in the root directory instead of config/',
+    'The parent component re-renders on every keystroke',
+    'Dependencies are too old to receive security fixes',
+    'No support for users with disabilities in the form controls',
+    'Routing logic is located in App.tsx',
+  ])('ignores "%s"', (text) => {
+    expect(personalAttributes(text)).toEqual([]);
+  });
+});
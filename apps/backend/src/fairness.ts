@@ -0,0 +1,177 @@
+import { CitedFinding } from './citations';
+import { DeveloperEvidence } from './evidence';
+import { isOriginalWork } from './repo-classification';
+
+export const PERSONAL_ATTRIBUTES = [
+  'age',
+  'gender',
+  'family',
+  'nationality',
+  'location',
+  'religion',
+  'health',
+  'sexuality',
+  'politics',
+  'appearance',
+] as const;
+
+export type PersonalAttribute = (typeof PERSONAL_ATTRIBUTES)[number];
+
+// A risk factor set aside because it is about the person rather than their work
+export type FlaggedFinding = CitedFinding & { attributes: PersonalAttribute[] };
+
+// Who a finding is about: the candidate, or a pronoun standing for them
+const PERSON = /(?:the )?(?:candidate|developer|applicant|engineer)(?:['’]s)?|he|she|they|his|her|their|him|them/;
+// Short words allowed between the person and the attribute, as in "the candidate is a woman" or "their young family"
+const FILLER_VERBS = /is|are|was|were|has|have|had|be|been|being|seems|appears|may|might|would|will|needs?/;
+const FILLER_WORDS = /a|an|the|own|very|too|young|current|personal|and|or|of|from/;
+
+const joined = (phrases: RegExp[]) => phrases.map((phrase) => phrase.source).join('|');
+
+/** Matches any of `phrases` wherever they appear; for phrases that can only describe a person. */
+const anywhere = (...phrases: RegExp[]) => new RegExp(`\\b(?:${joined(phrases)})\\b`, 'i');
+
+/**
+ * Matches any of `phrases` only when it is said of the person, within three
+ * filler words of a reference to them. For words that also describe code:
+ * "their time zone" matches, while "ignores time zones", "Visa payments" or
+ * "a family of packages" do not.
+ */
+const aboutPerson = (...phrases: RegExp[]) =>
+  new RegExp(
+    `\\b(?:${PERSON.source})(?:[\\s,]+(?:${FILLER_VERBS.source}|${FILLER_WORDS.source})){0,3}[\\s,]+` +
+      `(?:${joined(phrases)})\\b`,
+    'i',
+  );
+
+// Living somewhere: a capitalized place name ("Located in Nigeria", but not "located in App.tsx"), or a far-off
+// country, city or time zone; case-sensitive, so "located in the root directory" does not match
+const LIVES_IN = new RegExp(
+  /\b(?:[Ll]ocated|[Bb]ased|[Ll]ives|[Ll]iving|[Rr]esides|[Rr]esiding) in /.source +
+    /(?:[A-Z][a-z]+(?![\w./])|an? (?:\w+ )?(?:time ?zone|country|city|region)\b)/.source,
+);
+
+// Phrases that tie a finding to a personal attribute: those that can only be about a person always match, the
+// ambiguous ones only when said of the candidate
+const ATTRIBUTE_PATTERNS: Record<PersonalAttribute, RegExp[]> = {
+  age: [
+    anywhere(
+      /\d{2}[- ]years?[- ]old|(older|younger) (developer|candidate|engineer|applicant)/,
+      /retire(e|ment)|nearing retirement|millennial|boomer|gen[- ]?z/,
+    ),
+    aboutPerson(/age|aged|too (young|old)/),
+  ],
+  gender: [anywhere(/woman|women|female|maternity|paternity|pregnan\w*/), aboutPerson(/gender|male/)],
+  family: [
+    anywhere(/mother|father|mom|dad|(young|new|single|working) parent|parenthood|spouse|wife|husband|married|marital/),
+    anywhere(/childcare|caregiv\w*/),
+    aboutPerson(/kids|children|family|parent|parental/),
+  ],
+  nationality: [
+    anywhere(
+      /(visa )?sponsorship|work (visa|permit)|requires? (a )?visa|(non-)?native (english )?speaker|immigra\w*/,
+      /nationality|national origin|ethnic\w*|racial|citizenship|foreigner|country of origin/,
+    ),
+    aboutPerson(/visa|citizen\w*|accent|race(?!\s+conditions?)/),
+  ],
+  location: [LIVES_IN, aboutPerson(/relocat\w*|hometown|time ?zones?|country|city|location/)],
+  religion: [
+    anywhere(/religio\w*|church|mosque|synagogue|christian|muslim|jewish|hindu|buddhist/),
+    aboutPerson(/faith/),
+  ],
+  health: [
+    anywhere(/illness|sick leave|mental health|health (issues?|problems?|conditions?)|neurodivergen\w*|adhd|autis\w*/),
+    aboutPerson(/disabilit(y|ies)|medical/),
+  ],
+  sexuality: [anywhere(/sexual orientation|sexuality|lgbt\w*|gay|lesbian|queer|transgender/)],
+  politics: [aboutPerson(/politic\w*|activis\w*/)],
+  appearance: [aboutPerson(/avatar|photos?|appearance|looks|(first |last |sur)name/)],
+};
+
+/** The personal attributes a finding's text mentions, if any. */
+export function personalAttributes(text: string): PersonalAttribute[] {
+  return PERSONAL_ATTRIBUTES.filter((attribute) => ATTRIBUTE_PATTERNS[attribute].some((pattern) => pattern.test(text)));
+}
+
+/**
+ * Splits risk factors into those about the candidate's work and those that
+ * mention personal attributes, which must not count against anyone.
+ */
+export function screenRiskFactors(findings: CitedFinding[]): { kept: CitedFinding[]; flagged: FlaggedFinding[] } {
+  const kept: CitedFinding[] = [];
+  const flagged: FlaggedFinding[] = [];
+  for (const finding of findings) {
+    const attributes = personalAttributes(finding.text);
+    if (attributes.length > 0) {
+      flagged.push({ ...finding, attributes });
+    } else {
+      kept.push(finding);
+    }
+  }
+  return { kept, flagged };
+}
+
+/**
+ * Removes the identity fields of the profile and of every linked account
+ * (name, company, blog, location, bio and avatar) so the model judges the work
+ * alone. Usernames stay, since every citation is relative to them.
+ */
+export function blindEvidence(evidence: DeveloperEvidence): DeveloperEvidence {
+  return {
+    ...evidence,
+    profile: {
+      ...evidence.profile,
+      avatar_url: '',
+      name: null,
+      company: null,
+      blog: null,
+      location: null,
+      bio: null,
+    },
+    accounts: evidence.accounts?.map((account) => ({ ...account, name: null })),
+  };
+}
+
+// Enough public work to judge: a few pull requests, or an original repo with regular commits
+const MIN_PULL_REQUESTS = 3;
+const MIN_COMMITS = 10;
+
+interface PublicWork {
+  originalRepos: number;
+  pullRequests: number;
+  commits: number;
+}
+
+function publicWork(evidence: DeveloperEvidence): PublicWork {
+  return {
+    originalRepos: evidence.repos.filter(isOriginalWork).length,
+    pullRequests: evidence.pullRequests.totalPRs + (evidence.externalContributions?.totalPRs ?? 0),
+    commits: evidence.commitAnalysis.totalCommits,
+  };
+}
+
+const describeWork = ({ originalRepos, pullRequests, commits }: PublicWork) =>
+  `${originalRepos} original repo${originalRepos === 1 ? '' : 's'}, ` +
+  `${pullRequests} pull request${pullRequests === 1 ? '' : 's'} and ` +
+  `${commits} recent commit${commits === 1 ? '' : 's'}`;
+
+/**
+ * Says why the evidence is too sparse to recommend either way, or returns null
+ * when there is enough. A thin public profile is a lack of evidence, not a
+ * reason to pass on someone.
+ */
+export function insufficientEvidence(evidence: DeveloperEvidence): string | null {
+  const work = publicWork(evidence);
+  if (work.pullRequests >= MIN_PULL_REQUESTS || (work.originalRepos > 0 && work.commits >= MIN_COMMITS)) {
+    return null;
+  }
+  return `Only ${describeWork(work)} are public`;
+}
+
+/**
+ * The reason given when the model recommended Insufficient Evidence although
+ * the evidence met the minimum, so that verdict never comes without one.
+ */
+export function judgedInsufficientEvidence(evidence: DeveloperEvidence): string {
+  return `The model judged the public work too thin to recommend either way (${describeWork(publicWork(evidence))})`;
+}
@@ -0,0 +1,20 @@
+import { googleAI } from '@genkit-ai/googleai';
+import { EmbedderArgument, genkit } from 'genkit';
+
+import { MOCK_EMBEDDER, MOCK_MODEL, mockModel } from './mock-model';
+
+/** Set MOCK_MODEL=1 to answer with canned output instead of calling Gemini. */
+const useMockModel = process.env.MOCK_MODEL === '1';
+
+/** Model every assessment is generated with; reported alongside each result. */
+export const ASSESSMENT_MODEL = useMockModel ? MOCK_MODEL : 'gemini-2.5-flash';
+
+/** Embeds rubric guidelines and retrieval queries. */
+export const GUIDELINE_EMBEDDER: EmbedderArgument = useMockModel
+  ? MOCK_EMBEDDER
+  : googleAI.embedder('gemini-embedding-001');
+
+export const ai = genkit({
+  plugins: [useMockModel ? mockModel() : googleAI()],
+  model: useMockModel ? MOCK_MODEL : googleAI.model(ASSESSMENT_MODEL),
+});
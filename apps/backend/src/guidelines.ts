@@ -0,0 +1,169 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { Document, z } from 'genkit';
+import * as path from 'path';
+
+import { DeveloperEvidence } from './evidence';
+import { GUIDELINE_EMBEDDER, ai } from './genkit';
+
+// Development Best Practices Guidelines
+export const developmentGuidelines = [
+  "Code Quality: Well-structured, readable code with consistent formatting and meaningful variable names",
+  "Testing: Comprehensive test coverage including unit tests, integration tests, and edge cases",
+  "Documentation: Clear README files, inline comments for complex logic, and API documentation",
+  "Version Control: Meaningful commit messages, logical commit history, and proper branching strategies",
+  "Code Review: Responsive to feedback, constructive review comments, and collaborative development",
+  "Architecture: Clean architecture patterns, separation of concerns, and scalable design",
+  "Performance: Efficient algorithms, optimized database queries, and performance monitoring",
+  "Security: Input validation, secure coding practices, and vulnerability awareness",
+  "Maintainability: Modular code, DRY principles, and easy-to-extend codebase",
+  "Collaboration: Clear communication, timely responses, and knowledge sharing"
+];
+
+/** Markdown rubrics (e.g. internal engineering standards) indexed alongside the built-ins. */
+export const RUBRIC_DIR = process.env.RUBRIC_DIR ?? path.join(__dirname, 'rubrics');
+
+export const guidelineSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  text: z.string(),
+  source: z.string(),
+});
+
+export type Guideline = z.infer<typeof guidelineSchema>;
+
+interface IndexedGuideline {
+  guideline: Guideline;
+  embedding: number[];
+}
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+function builtInGuidelines(): Guideline[] {
+  return developmentGuidelines.map((entry) => {
+    const [title, text] = entry.split(/:\s(.+)/);
+    return { id: slugify(title), title, text, source: 'built-in' };
+  });
+}
+
+/**
+ * Each `## ` heading in a markdown file becomes its own guideline so retrieval
+ * can return the specific standard rather than the whole document.
+ */
+export function parseRubricMarkdown(fileName: string, markdown: string): Guideline[] {
+  const stem = path.basename(fileName, path.extname(fileName));
+  const sections = markdown.split(/^## +/m);
+  const preamble = sections.shift()?.trim() ?? '';
+
+  if (sections.length === 0) {
+    return preamble ? [{ id: slugify(stem), title: stem, text: preamble, source: fileName }] : [];
+  }
+
+  return sections
+    .map((section) => {
+      const [heading, ...body] = section.split('\n');
+      return {
+        id: `${slugify(stem)}/${slugify(heading)}`,
+        title: heading.trim(),
+        text: body.join('\n').trim(),
+        source: fileName,
+      };
+    })
+    .filter((guideline) => guideline.text.length > 0);
+}
+
+function loadRubricDirectory(dir: string): Guideline[] {
+  if (!existsSync(dir)) {
+    console.warn(`Rubric directory not found, using built-in guidelines only: ${dir}`);
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((file) => /\.(md|txt)$/i.test(file))
+    .sort()
+    .flatMap((file) => parseRubricMarkdown(file, readFileSync(path.join(dir, file), 'utf8')));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Embedded once per instance; the rubric set is small and static.
+let guidelineIndex: Promise<IndexedGuideline[]> | null = null;
+
+function indexGuidelines(): Promise<IndexedGuideline[]> {
+  if (!guidelineIndex) {
+    guidelineIndex = (async () => {
+      const guidelines = [...builtInGuidelines(), ...loadRubricDirectory(RUBRIC_DIR)];
+      console.log(`Indexing ${guidelines.length} rubric guidelines`);
+      const embeddings = await ai.embedMany({
+        embedder: GUIDELINE_EMBEDDER,
+        content: guidelines.map((guideline) => `${guideline.title}: ${guideline.text}`),
+      });
+      return guidelines.map((guideline, i) => ({ guideline, embedding: embeddings[i].embedding }));
+    })().catch((error) => {
+      guidelineIndex = null;
+      throw error;
+    });
+  }
+  return guidelineIndex;
+}
+
+export const guidelineRetriever = ai.defineRetriever(
+  {
+    name: 'insightRank/guidelines',
+    configSchema: z.object({ k: z.number().optional() }),
+  },
+  async (query, options) => {
+    const index = await indexGuidelines();
+    const [{ embedding }] = await ai.embed({ embedder: GUIDELINE_EMBEDDER, content: query });
+
+    const documents = index
+      .map((entry) => ({ ...entry, score: cosineSimilarity(embedding, entry.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.k ?? 6)
+      .map(({ guideline, score }) =>
+        Document.fromText(guideline.text, { ...guideline, score }),
+      );
+
+    return { documents };
+  },
+);
+
+/**
+ * Summarises the evidence into a retrieval query so the guidelines that best
+ * match this candidate's work are pulled into the prompt.
+ */
+export function guidelineQuery(evidence: DeveloperEvidence): string {
+  const languages = evidence.languageStats.topLanguages.map((language) => language.name).join(', ');
+  return [
+    `Developer working mainly in ${languages || 'unknown languages'}.`,
+    `${evidence.pullRequests.totalPRs} pull requests with a ${evidence.pullRequests.mergeRate}% merge rate and an average size of ${evidence.pullRequests.averagePRSize} lines.`,
+    `Commit frequency ${evidence.commitAnalysis.commitFrequency}, commit message quality ${evidence.commitAnalysis.commitMessageQuality}.`,
+    `Recent repositories: ${evidence.repos.map((repo) => repo.name).join(', ')}.`,
+    ...(evidence.codeSample
+      ? [
+          `Of ${evidence.codeSample.sampledRepos} sampled repositories, ${evidence.codeSample.withTests} have tests, ${evidence.codeSample.withCI} CI and ${evidence.codeSample.withLinters} linters.`,
+        ]
+      : []),
+  ].join(' ');
+}
+
+export async function retrieveGuidelines(evidence: DeveloperEvidence, k = 6): Promise<Guideline[]> {
+  const documents = await ai.retrieve({
+    retriever: guidelineRetriever,
+    query: guidelineQuery(evidence),
+    options: { k },
+  });
+  return documents.map((document) => {
+    const { id, title, text, source } = document.metadata as Guideline;
+    return { id, title, text, source };
+  });
+}
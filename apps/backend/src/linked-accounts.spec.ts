@@ -0,0 +1,95 @@
+import { DeveloperEvidence } from './evidence';
+import { gatherLinkedEvidence, mergeEvidence } from './linked-accounts';
+
+const NOW = new Date('2026-10-01T00:00:00Z').getTime();
+
+type Repo = DeveloperEvidence['repos'][number];
+
+const gitlabRepo = (name: string, overrides: Partial<Repo>): Repo => ({
+  name,
+  full_name: `octo/${name}`,
+  html_url: `https://gitlab.com/octo/${name}`,
+  language: 'TypeScript',
+  pushed_at: '2026-01-01T00:00:00Z',
+  stargazers_count: 0,
+  forks: 0,
+  fork: false,
+  account: 'gitlab:octo',
+  ...overrides,
+});
+
+describe('mergeEvidence', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    // Gathering evidence logs every tool call
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops mirrors and forks of the same upstream but keeps unrelated repos that share a name', async () => {
+    const github = await gatherLinkedEvidence([{ username: 'octo-dev', provider: 'github' }]);
+    const taskboard = github.repos.find((repo) => repo.name === 'taskboard');
+    const gitlab: DeveloperEvidence = {
+      ...github,
+      provider: 'gitlab',
+      accounts: [],
+      codeSample: undefined,
+      repos: [
+        gitlabRepo('taskboard', { headSha: taskboard?.headSha }),
+        gitlabRepo('dotfiles', { headSha: 'f00dfeed' }),
+        gitlabRepo('api-kit', {}),
+        gitlabRepo('lodash', {
+          fork: true,
+          parent: 'https://github.com/lodash/lodash',
+          pushed_at: '2020-01-01T00:00:00Z',
+        }),
+      ],
+    };
+
+    const merged = mergeEvidence([github, gitlab]);
+
+    expect(merged.duplicates).toEqual([
+      { repo: 'octo/taskboard', account: 'gitlab:octo', duplicateOf: 'octo-dev/taskboard', reason: 'mirror' },
+      { repo: 'octo/lodash', account: 'gitlab:octo', duplicateOf: 'octo-dev/lodash', reason: 'fork' },
+    ]);
+    expect(merged.repos.map((repo) => repo.full_name)).toEqual(
+      expect.arrayContaining(['octo-dev/dotfiles', 'octo/dotfiles', 'octo-dev/api-kit', 'octo/api-kit']),
+    );
+  });
+
+  it('drops only the discarded copy of a same-named mirror from code samples and language counts', async () => {
+    const github = await gatherLinkedEvidence([{ username: 'octo-dev', provider: 'github' }]);
+    const taskboard = github.repos.find((repo) => repo.name === 'taskboard') as Repo;
+    const sample = github.codeSample as NonNullable<DeveloperEvidence['codeSample']>;
+    const mirror = { ...taskboard, html_url: 'https://gitlab.com/octo-dev/taskboard', account: 'gitlab:octo-dev' };
+    const gitlab: DeveloperEvidence = {
+      ...github,
+      provider: 'gitlab',
+      accounts: [],
+      repos: [{ ...mirror, pushed_at: '2020-01-01T00:00:00Z' }],
+      languageStats: { ...github.languageStats, totalRepos: 1 },
+      codeSample: {
+        ...sample,
+        repos: sample.repos
+          .filter((repo) => repo.repo === 'octo-dev/taskboard')
+          .map((repo) => ({ ...repo, account: 'gitlab:octo-dev' })),
+      },
+    };
+    const typescriptCount = (stats: DeveloperEvidence['languageStats']) =>
+      stats.topLanguages.find((language) => language.name === taskboard.language)?.count ?? 0;
+
+    const merged = mergeEvidence([github, gitlab]);
+
+    expect(merged.duplicates).toEqual([
+      { repo: 'octo-dev/taskboard', account: 'gitlab:octo-dev', duplicateOf: 'octo-dev/taskboard', reason: 'mirror' },
+    ]);
+    expect(merged.codeSample?.repos.map((sample) => [sample.repo, sample.account])).toEqual(
+      sample.repos.map((repo) => [repo.repo, 'github:octo-dev']),
+    );
+    expect(merged.languageStats.totalRepos).toBe(github.languageStats.totalRepos);
+    expect(typescriptCount(merged.languageStats)).toBe(2 * typescriptCount(github.languageStats) - 1);
+  });
+});
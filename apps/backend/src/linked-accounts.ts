@@ -0,0 +1,374 @@
+import { z } from 'genkit';
+
+import {
+  COMMIT_WINDOW_DAYS,
+  CodeHostInput,
+  CommitAnalysis,
+  CommitMessageStats,
+  ExternalContributions,
+  LanguageStats,
+  LanguageYear,
+  ReviewActivity,
+  accountId,
+  averageCommitSize,
+  codeHostInputSchema,
+  commitFrequencyLabel,
+  commitMessageQualityLabel,
+  languageStatsFrom,
+  summarizePullRequests,
+  summarizeStarred,
+} from './code-host';
+import { summarizeCodeSample } from './code-sample';
+import { DeveloperEvidence, gatherDeveloperEvidence } from './evidence';
+import { ProgressReporter, ProgressStep } from './progress';
+
+export const MAX_LINKED_ACCOUNTS = 4;
+
+// Other accounts of the same developer, e.g. a personal GitHub next to a work GitLab
+export const linkedAccountsSchema = z
+  .array(codeHostInputSchema)
+  .max(MAX_LINKED_ACCOUNTS)
+  .describe('Further accounts of the same developer, merged into one assessment');
+
+type Repo = DeveloperEvidence['repos'][number];
+type DuplicateRepo = NonNullable<DeveloperEvidence['duplicates']>[number];
+
+/**
+ * Gathers evidence for every account of one developer and merges it. The
+ * first account is the primary one: its profile and username head the report
+ * and its history the run is saved under.
+ */
+export async function gatherLinkedEvidence(
+  accounts: CodeHostInput[],
+  report: ProgressReporter = () => undefined,
+): Promise<DeveloperEvidence> {
+  const unique = uniqueAccounts(accounts);
+  if (unique.length === 1) {
+    return gatherDeveloperEvidence(unique[0], report);
+  }
+
+  const reporters = combineProgress(report, unique.map(accountId));
+  const parts = await Promise.all(unique.map((account, i) => gatherDeveloperEvidence(account, reporters[i])));
+  return mergeEvidence(parts);
+}
+
+function uniqueAccounts(accounts: CodeHostInput[]): CodeHostInput[] {
+  const seen = new Set<string>();
+  return accounts.filter((account) => {
+    const id = accountId(account).toLowerCase();
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * One reporter per account that folds their step events into one timeline: a
+ * step starts with the first account and completes with the last one, with
+ * each account's completion message.
+ */
+function combineProgress(report: ProgressReporter, ids: string[]): ProgressReporter[] {
+  const started = new Set<ProgressStep>();
+  const completed = new Map<ProgressStep, string[]>();
+
+  return ids.map((id) => (event) => {
+    if (event.type !== 'step') {
+      report(event);
+    } else if (event.status === 'started') {
+      if (!started.has(event.step)) report(event);
+      started.add(event.step);
+    } else {
+      const messages = [...(completed.get(event.step) ?? []), `${id}: ${event.message}`];
+      completed.set(event.step, messages);
+      if (messages.length === ids.length) report({ ...event, message: messages.join('; ') });
+    }
+  });
+}
+
+function weightedMessageStats(analyses: CommitAnalysis[]): CommitMessageStats {
+  const total = analyses.reduce((sum, analysis) => sum + analysis.totalCommits, 0);
+  const share = (trait: keyof CommitMessageStats) =>
+    total > 0
+      ? Math.round(
+          analyses.reduce((sum, analysis) => sum + (analysis.messageStats?.[trait] ?? 0) * analysis.totalCommits, 0) /
+            total,
+        )
+      : 0;
+  return {
+    conventional: share('conventional'),
+    imperative: share('imperative'),
+    conciseSubject: share('conciseSubject'),
+    withBody: share('withBody'),
+    issueReferences: share('issueReferences'),
+  };
+}
+
+/** Prefers originals over forks, then the more starred and more recently pushed copy. */
+function preferredRepo(a: Repo, b: Repo): number {
+  return (
+    Number(a.fork ?? false) - Number(b.fork ?? false) ||
+    b.stargazers_count - a.stargazers_count ||
+    b.pushed_at.localeCompare(a.pushed_at)
+  );
+}
+
+/**
+ * What ties a repo to its copies: its own URL, the URL it was forked from, and
+ * its name together with its latest commit. Repos that share a key are copies
+ * of each other.
+ */
+function repoKeys(repo: Repo): string[] {
+  return [
+    `url:${repo.html_url.toLowerCase()}`,
+    ...(repo.parent ? [`url:${repo.parent.toLowerCase()}`] : []),
+    ...(repo.headSha ? [`mirror:${repo.name.toLowerCase()}:${repo.headSha}`] : []),
+  ];
+}
+
+/** Groups repos that are linked through any shared key, directly or through other repos. */
+function groupCopies(repos: Repo[]): Repo[][] {
+  const groupOf = repos.map((_, i) => i);
+  const root = (i: number): number => (groupOf[i] === i ? i : (groupOf[i] = root(groupOf[i])));
+  const owners = new Map<string, number>();
+  repos.forEach((repo, i) => {
+    for (const key of repoKeys(repo)) {
+      const owner = owners.get(key);
+      if (owner === undefined) owners.set(key, i);
+      else groupOf[root(i)] = root(owner);
+    }
+  });
+
+  const groups = new Map<number, Repo[]>();
+  repos.forEach((repo, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), repo]));
+  return [...groups.values()];
+}
+
+/**
+ * Keeps one copy of every repo that appears under several accounts: forks of
+ * another account's repo or of the same upstream, and mirrors (the same repo
+ * name with the same latest commit on another host or organisation) are
+ * dropped and recorded as duplicates. Same-named repos with different
+ * histories are different projects and are all kept.
+ */
+function dedupeRepos(repos: Repo[]): { repos: Repo[]; duplicates: DuplicateRepo[] } {
+  const kept: Repo[] = [];
+  const duplicates: DuplicateRepo[] = [];
+  for (const group of groupCopies(repos)) {
+    const [original, ...copies] = [...group].sort(preferredRepo);
+    kept.push(original);
+    for (const copy of copies) {
+      duplicates.push({
+        repo: copy.full_name,
+        account: copy.account ?? '',
+        duplicateOf: original.full_name,
+        reason: copy.fork ? 'fork' : 'mirror',
+      });
+    }
+  }
+
+  return { repos: kept.sort((a, b) => b.pushed_at.localeCompare(a.pushed_at)), duplicates };
+}
+
+/**
+ * Sums per-account contributions. Two accounts on different hosts cannot have
+ * contributed the same pull request, so only upstream projects are combined.
+ */
+function mergeExternalContributions(parts: ExternalContributions[]): ExternalContributions | undefined {
+  if (parts.length === 0) return undefined;
+  const sum = (field: 'totalPRs' | 'merged' | 'closed' | 'open') =>
+    parts.reduce((total, part) => total + part[field], 0);
+
+  const projects = new Map<string, ExternalContributions['projects'][number]>();
+  for (const project of parts.flatMap((part) => part.projects)) {
+    const key = project.html_url.toLowerCase();
+    const known = projects.get(key);
+    projects.set(key, known
+      ? {
+          ...known,
+          merged: known.merged + project.merged,
+          closed: known.closed + project.closed,
+          open: known.open + project.open,
+          approvals: known.approvals + project.approvals,
+          changesRequested: known.changesRequested + project.changesRequested,
+        }
+      : project);
+  }
+
+  const sampled = sum('merged') + sum('closed') + sum('open');
+  return {
+    totalPRs: sum('totalPRs'),
+    merged: sum('merged'),
+    closed: sum('closed'),
+    open: sum('open'),
+    mergeRate: sampled > 0 ? Math.round((sum('merged') / sampled) * 100) : 0,
+    projects: [...projects.values()].sort((a, b) => b.merged - a.merged || b.stargazers_count - a.stargazers_count),
+    recentPRs: parts
+      .flatMap((part) => part.recentPRs)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, 10),
+  };
+}
+
+/** Sums per-account review counts; averages are weighted by each account's reviews. */
+function mergeReviewActivity(parts: ReviewActivity[]): ReviewActivity | undefined {
+  if (parts.length === 0) return undefined;
+  const sum = (field: 'reviewedPRs' | 'totalReviews' | 'approvals' | 'changesRequested' | 'commentOnly' | 'inlineComments') =>
+    parts.reduce((total, part) => total + part[field], 0);
+  const totalReviews = sum('totalReviews');
+  const weighted = (field: 'averageCommentsPerReview' | 'averageCommentLength') =>
+    totalReviews > 0
+      ? Math.round((parts.reduce((total, part) => total + part[field] * part.totalReviews, 0) / totalReviews) * 10) / 10
+      : 0;
+
+  return {
+    reviewedPRs: sum('reviewedPRs'),
+    totalReviews,
+    approvals: sum('approvals'),
+    changesRequested: sum('changesRequested'),
+    commentOnly: sum('commentOnly'),
+    inlineComments: sum('inlineComments'),
+    averageCommentsPerReview: weighted('averageCommentsPerReview'),
+    averageCommentLength: Math.round(weighted('averageCommentLength')),
+    repos: [...new Set(parts.flatMap((part) => part.repos))].slice(0, 10),
+    recentReviews: parts
+      .flatMap((part) => part.recentReviews)
+      .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))
+      .slice(0, 10),
+  };
+}
+
+/**
+ * Combines per-account language stats, weighting each account's shares by the
+ * repositories they were computed from. Shares are kept per account rather
+ * than per repository, so a duplicate only reduces the repository counts.
+ */
+function mergeLanguageStats(parts: LanguageStats[], duplicates: Repo[]): LanguageStats {
+  const counts: Record<string, number> = {};
+  const weighted: Record<string, number> = {};
+  const years = new Map<number, LanguageYear>();
+  for (const part of parts) {
+    for (const [language, count] of Object.entries(part.languages)) {
+      counts[language] = (counts[language] ?? 0) + count;
+    }
+    for (const [language, share] of Object.entries(part.shares ?? {})) {
+      weighted[language] = (weighted[language] ?? 0) + share * part.totalRepos;
+    }
+    for (const { year, repos, languages } of part.trend ?? []) {
+      const merged = years.get(year) ?? { repos: 0, amounts: {} };
+      merged.repos += repos;
+      for (const { name, percentage } of languages) {
+        merged.amounts[name] = (merged.amounts[name] ?? 0) + percentage * repos;
+      }
+      years.set(year, merged);
+    }
+  }
+  for (const repo of duplicates) {
+    if (repo.language && counts[repo.language] > 0) counts[repo.language]--;
+  }
+
+  const excluded = (field: 'forks' | 'archived' | 'templates') =>
+    parts.reduce((sum, part) => sum + (part.excludedRepos?.[field] ?? 0), 0);
+  return languageStatsFrom(counts, weighted, {
+    totalRepos: Math.max(parts.reduce((sum, part) => sum + part.totalRepos, 0) - duplicates.length, 0),
+    weighting: parts.every((part) => part.weighting === 'bytes') ? 'bytes' : 'shares',
+    excludedRepos: { forks: excluded('forks'), archived: excluded('archived'), templates: excluded('templates') },
+    years,
+  });
+}
+
+/**
+ * Combines per-account evidence into one. Samples (repos, pull requests,
+ * commits, stars) are concatenated without duplicates; totals are summed, less
+ * the duplicates found in the samples, since the full lists behind each
+ * account's totals are not kept.
+ */
+export function mergeEvidence(parts: DeveloperEvidence[]): DeveloperEvidence {
+  const [primary] = parts;
+  const { repos, duplicates } = dedupeRepos(parts.flatMap((part) => part.repos));
+
+  // Keyed by account too: a mirror usually has the same name as the copy that was kept
+  const copyKey = (account: string | undefined, fullName: string) => `${account ?? ''}/${fullName}`;
+  const dropped = new Set(duplicates.map((duplicate) => copyKey(duplicate.account, duplicate.repo)));
+
+  const prUrls = new Set<string>();
+  const recentPRs = parts
+    .flatMap((part) => part.pullRequests.recentPRs)
+    .filter((pr) => !prUrls.has(pr.html_url) && prUrls.add(pr.html_url));
+  const totalPRs = parts.reduce((sum, part) => sum + part.pullRequests.totalPRs, 0);
+  const mergedPRs = parts.reduce(
+    (sum, part) => sum + Math.round((part.pullRequests.mergeRate / 100) * part.pullRequests.totalPRs),
+    0,
+  );
+
+  // A commit pushed to mirrors on several hosts keeps its sha, so it is only counted once
+  const shas = new Set<string>();
+  const allCommits = parts.flatMap((part) => part.commitAnalysis.recentCommits);
+  const recentCommits = allCommits
+    .filter((commit) => !shas.has(commit.sha) && shas.add(commit.sha))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const duplicateCommits = allCommits.length - recentCommits.length;
+  const windowDays = primary.commitAnalysis.windowDays ?? COMMIT_WINDOW_DAYS;
+  const averageCommitsPerWeek = Math.max(
+    0,
+    Math.round(
+      (parts.reduce((sum, part) => sum + part.commitAnalysis.averageCommitsPerWeek, 0) -
+        duplicateCommits / (windowDays / 7)) *
+        10,
+    ) / 10,
+  );
+  const totalCommits = parts.reduce((sum, part) => sum + part.commitAnalysis.totalCommits, 0) - duplicateCommits;
+  // Message habits are weighted by how many commits each account contributed
+  const messageStats = parts.every((part) => part.commitAnalysis.messageStats)
+    ? weightedMessageStats(parts.map((part) => part.commitAnalysis))
+    : undefined;
+  const mostActive = [...parts].sort((a, b) => b.commitAnalysis.totalCommits - a.commitAnalysis.totalCommits)[0];
+
+  const starNames = new Set<string>();
+  const stars = parts
+    .flatMap((part) => part.starredRepos.recentStars)
+    .filter((star) => !starNames.has(star.name.toLowerCase()) && starNames.add(star.name.toLowerCase()));
+
+  return {
+    ...primary,
+    collectedAt: new Date().toISOString(),
+    repos,
+    languageStats: mergeLanguageStats(
+      parts.map((part) => part.languageStats),
+      parts.flatMap((part) => part.repos).filter((repo) => dropped.has(copyKey(repo.account, repo.full_name))),
+    ),
+    pullRequests: summarizePullRequests(recentPRs, totalPRs, mergedPRs),
+    commitAnalysis: {
+      totalCommits,
+      commitFrequency: commitFrequencyLabel(averageCommitsPerWeek),
+      averageCommitsPerWeek,
+      commitMessageQuality: messageStats
+        ? commitMessageQualityLabel(messageStats)
+        : mostActive.commitAnalysis.commitMessageQuality,
+      recentCommits: recentCommits.slice(0, 10),
+      windowDays,
+      averageCommitSize: averageCommitSize(recentCommits.slice(0, 10)),
+      messageStats,
+    },
+    starredRepos: summarizeStarred(
+      stars,
+      parts.reduce((sum, part) => sum + part.starredRepos.totalStarred, 0),
+    ),
+    externalContributions: mergeExternalContributions(
+      parts.flatMap((part) => (part.externalContributions ? [part.externalContributions] : [])),
+    ),
+    reviewActivity: mergeReviewActivity(
+      parts.flatMap((part) => (part.reviewActivity ? [part.reviewActivity] : [])),
+    ),
+    // Samples of repos dropped as duplicates are dropped with them
+    codeSample: parts.every((part) => part.codeSample)
+      ? summarizeCodeSample(
+          parts
+            .flatMap((part) => part.codeSample?.repos ?? [])
+            .filter((sample) => !dropped.has(copyKey(sample.account, sample.repo))),
+        )
+      : undefined,
+    accounts: parts.flatMap((part) => part.accounts ?? []),
+    duplicates,
+    failures: parts.flatMap((part) => part.failures ?? []),
+  };
+}
@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { GenerateRequest } from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import * as path from 'path';
+
+export const MOCK_MODEL = 'mock/insightrank';
+export const MOCK_EMBEDDER = 'mock/embedder';
+
+/** Canned model output, one JSON file per kind of request, read from MOCK_MODEL_DIR. */
+export const MOCK_MODEL_DIR = process.env.MOCK_MODEL_DIR ?? path.join('fixtures', 'model');
+
+const EMBEDDING_DIMENSIONS = 64;
+
+// Tells the requests apart by a property only that output schema has
+const CANNED_OUTPUTS = [
+  { property: 'strengths', file: 'assessment.json' },
+  { property: 'points', file: 'comparison.json' },
+];
+
+function cannedOutput(request: GenerateRequest): string {
+  const properties = (request.output?.schema?.properties ?? {}) as Record<string, unknown>;
+  const canned = CANNED_OUTPUTS.find((output) => output.property in properties);
+  if (!canned) {
+    throw new Error(`${MOCK_MODEL} has no canned output for this request`);
+  }
+  return readFileSync(path.resolve(MOCK_MODEL_DIR, canned.file), 'utf8');
+}
+
+/**
+ * Hashes each word into a fixed-size vector, so texts sharing words are
+ * similar and guideline retrieval stays deterministic.
+ */
+export function bagOfWordsEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  }
+  return vector;
+}
+
+/**
+ * A Genkit plugin whose model answers with the canned JSON in MOCK_MODEL_DIR
+ * and whose embedder needs no API, so flows run offline and in tests.
+ */
+export const mockModel = () =>
+  genkitPlugin('mock', (ai) => {
+    ai.defineModel(
+      {
+        apiVersion: 'v2',
+        name: MOCK_MODEL,
+        supports: { output: ['json'], constrained: 'all' },
+      },
+      async (request, { sendChunk }) => {
+        const text = cannedOutput(request);
+        // Streamed in two halves so partial output reaches the client as with a real model
+        const middle = Math.floor(text.length / 2);
+        for (const part of [text.slice(0, middle), text.slice(middle)]) {
+          sendChunk({ content: [{ text: part }] });
+        }
+        return { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' };
+      },
+    );
+
+    ai.defineEmbedder({ name: MOCK_EMBEDDER, info: { dimensions: EMBEDDING_DIMENSIONS } }, async (input) => ({
+      embeddings: input.map((document) => ({ embedding: bagOfWordsEmbedding(document.text) })),
+    }));
+  });
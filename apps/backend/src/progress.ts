@@ -0,0 +1,76 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { z } from 'genkit';
+
+export const PROGRESS_STEPS = [
+  'profile',
+  'repos',
+  'languages',
+  'pullRequests',
+  'commits',
+  'starred',
+  'externalContributions',
+  'reviews',
+  'codeSample',
+  'guidelines',
+  'analysis',
+  'scoring',
+  'saving',
+] as const;
+
+export type ProgressStep = (typeof PROGRESS_STEPS)[number];
+
+/** Message sent when each step starts; completion messages describe the result. */
+export const progressStepLabels: Record<ProgressStep, string> = {
+  profile: 'Fetching profile',
+  repos: 'Fetching recently pushed repos',
+  languages: 'Computing language stats',
+  pullRequests: 'Analyzing pull requests',
+  commits: 'Analyzing commit history',
+  starred: 'Fetching starred repos',
+  externalContributions: "Searching contributions to other people's repos",
+  reviews: 'Gathering code reviews given',
+  codeSample: 'Sampling code from top repos',
+  guidelines: 'Retrieving relevant guidelines',
+  analysis: 'Generating assessment',
+  scoring: 'Scoring and verifying citations',
+  saving: 'Saving report',
+};
+
+// Streamed to the client while the insightRankFlow runs
+export const progressEventSchema = z.union([
+  z.object({
+    type: z.literal('step'),
+    step: z.enum(PROGRESS_STEPS),
+    status: z.enum(['started', 'completed']),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal('partial'),
+    attempt: z.number(),
+    assessment: z.record(z.string(), z.unknown()).describe('The model output parsed so far'),
+  }),
+]);
+
+export type ProgressEvent = z.infer<typeof progressEventSchema>;
+
+export type ProgressReporter = (event: ProgressEvent) => void;
+
+/** Reports `step` as started, runs `work`, then reports it completed with `describe(result)`. */
+export async function trackStep<T>(
+  report: ProgressReporter,
+  step: ProgressStep,
+  work: () => Promise<T> | T,
+  describe: (result: T) => string,
+): Promise<T> {
+  report({ type: 'step', step, status: 'started', message: progressStepLabels[step] });
+  const result = await work();
+  report({ type: 'step', step, status: 'completed', message: describe(result) });
+  return result;
+}
+
+/** Stops a flow between steps once its client has disconnected or cancelled. */
+export function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new HttpsError('cancelled', 'The analysis was cancelled.', { reason: 'CANCELLED' });
+  }
+}
@@ -0,0 +1,450 @@
+import {
+  CodeHostProvider,
+  Commit,
+  CommitAnalysis,
+  ExternalContributions,
+  LanguageStats,
+  Profile,
+  PullRequest,
+  PullRequestStats,
+  Repos,
+  ReviewActivity,
+  ReviewEvent,
+  StarredRepos,
+  byNewestCommit,
+  commitWindowStart,
+  summarizeCommits,
+  summarizeExternalContributions,
+  summarizeLanguageUsage,
+  summarizePullRequests,
+  summarizeReview,
+  summarizeReviewActivity,
+  summarizeStarred,
+} from '../code-host';
+import {
+  CodeSample,
+  RepoCodeSample,
+  RepoFile,
+  encodeFilePath,
+  filesToRead,
+  readFiles,
+  significantRepos,
+  summarizeCodeSample,
+  summarizeRepoCode,
+} from '../code-sample';
+import { RepoSignals, classifyFrom } from '../repo-classification';
+import { CodeHostClient, CodeHostNotFoundError } from '../code-host-client';
+
+// Bitbucket Cloud 2.0 payloads (only the fields the provider reads)
+interface BitbucketPage<T> {
+  values: T[];
+  size?: number;
+  next?: string;
+}
+
+interface BitbucketLinks {
+  html?: { href: string };
+  avatar?: { href: string };
+}
+
+interface BitbucketWorkspace {
+  uuid: string;
+  slug: string;
+  name: string;
+  created_on?: string;
+  links: BitbucketLinks;
+}
+
+interface BitbucketRepo {
+  name: string;
+  slug: string;
+  full_name: string;
+  description: string;
+  language: string;
+  size: number;
+  created_on: string;
+  updated_on: string;
+  parent?: { full_name: string };
+  mainbranch?: { name: string };
+  links: BitbucketLinks;
+}
+
+interface BitbucketAccount {
+  uuid?: string;
+  nickname?: string;
+}
+
+interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  description: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  created_on: string;
+  updated_on: string;
+  comment_count: number;
+  author: BitbucketAccount;
+  links: BitbucketLinks;
+}
+
+interface BitbucketDiffStat {
+  lines_added: number;
+  lines_removed: number;
+}
+
+// Each activity entry carries exactly one of these
+interface BitbucketActivity {
+  approval?: { date: string; user: BitbucketAccount };
+  changes_requested?: { date: string; user: BitbucketAccount };
+  comment?: { created_on: string; user: BitbucketAccount };
+  update?: { date: string; author: BitbucketAccount };
+}
+
+interface BitbucketCommit {
+  hash: string;
+  message: string;
+  date: string;
+  author: { user?: BitbucketAccount };
+  links: BitbucketLinks;
+}
+
+// An entry of a recursive source listing
+interface BitbucketSourceEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+}
+
+// Entries read from a repository's source listing, 100 per page
+const MAX_SOURCE_PAGES = 10;
+
+/**
+ * Bitbucket Cloud, where a candidate is identified by their personal workspace.
+ * Bitbucket has no public followers or stars, so both are reported as zero.
+ * Nor can it search pull requests across workspaces, so there are no external
+ * contributions or reviews given.
+ */
+export class BitbucketProvider implements CodeHostProvider {
+  readonly host = 'bitbucket' as const;
+  readonly webUrl = 'https://bitbucket.org';
+
+  constructor(
+    private readonly client = new CodeHostClient({
+      host: 'Bitbucket',
+      baseUrl: 'https://api.bitbucket.org/2.0',
+      token: () => process.env.BITBUCKET_TOKEN,
+    }),
+  ) {}
+
+  async fetchProfile(username: string): Promise<Profile> {
+    const [workspace, repos] = await Promise.all([
+      this.client.get<BitbucketWorkspace>(`/workspaces/${username}`),
+      this.client.get<BitbucketPage<BitbucketRepo>>(`/repositories/${username}`, {
+        sort: '-updated_on',
+        pagelen: 1,
+      }),
+    ]);
+    return {
+      login: workspace.slug,
+      id: workspace.uuid,
+      avatar_url: workspace.links.avatar?.href ?? '',
+      html_url: workspace.links.html?.href ?? `${this.webUrl}/${workspace.slug}`,
+      name: workspace.name,
+      company: null,
+      blog: null,
+      location: null,
+      bio: null,
+      public_repos: repos.size ?? repos.values.length,
+      followers: 0,
+      following: 0,
+      created_at: workspace.created_on ?? '',
+      updated_at: repos.values[0]?.updated_on ?? workspace.created_on ?? '',
+    };
+  }
+
+  async fetchRepos(username: string): Promise<Repos> {
+    const isAuthor = await this.authorMatcher(username);
+    const repos = await this.recentRepos(username, 15);
+    return Promise.all(
+      repos.map(async (repo) => ({
+        name: repo.name,
+        full_name: repo.full_name,
+        html_url: repo.links.html?.href ?? `${this.webUrl}/${repo.full_name}`,
+        language: repo.language || null,
+        pushed_at: repo.updated_on,
+        stargazers_count: 0,
+        forks: 0,
+        fork: repo.parent !== undefined,
+        parent: repo.parent && `${this.webUrl}/${repo.parent.full_name}`,
+        ...(await classifyFrom(username, repo.full_name, () => this.repoSignals(repo, isAuthor))),
+      })),
+    );
+  }
+
+  /**
+   * Bitbucket has no per-language breakdown, so a repository's whole size in
+   * bytes counts towards its one language. Bitbucket has no archived or
+   * template repositories.
+   */
+  async fetchLanguageStats(username: string): Promise<LanguageStats> {
+    const repos = await this.paginate<BitbucketRepo>(
+      `/repositories/${username}`,
+      { pagelen: 100, sort: '-updated_on' },
+      10,
+    );
+    const own = repos.filter((repo) => repo.parent === undefined);
+    return summarizeLanguageUsage(
+      own.map((repo) => ({
+        languages: repo.language ? { [repo.language]: repo.size } : {},
+        created_at: repo.created_on,
+        pushed_at: repo.updated_on,
+      })),
+      'bytes',
+      { forks: repos.length - own.length, archived: 0, templates: 0 },
+    );
+  }
+
+  async fetchPullRequests(username: string): Promise<PullRequestStats> {
+    const isAuthor = await this.authorMatcher(username);
+    const repos = await this.recentRepos(username, 10);
+    const sample: PullRequest[] = [];
+    let totalPRs = 0;
+    let mergedPRs = 0;
+
+    for (const repo of repos.slice(0, 5)) {
+      try {
+        // Bitbucket only returns open pull requests unless every state is asked for
+        const page = await this.client.get<BitbucketPage<BitbucketPullRequest>>(
+          `/repositories/${repo.full_name}/pullrequests?state=OPEN&state=MERGED&state=DECLINED&state=SUPERSEDED`,
+          { pagelen: 10 },
+        );
+        const userPRs = page.values.filter((pr) => isAuthor(pr.author));
+        sample.push(
+          ...(await Promise.all(userPRs.slice(0, 3).map((pr) => this.pullRequestDetail(repo, pr, isAuthor)))),
+        );
+        totalPRs += userPRs.length;
+        mergedPRs += userPRs.filter((pr) => pr.state === 'MERGED').length;
+      } catch (error) {
+        if (!(error instanceof CodeHostNotFoundError)) throw error;
+      }
+    }
+
+    return summarizePullRequests(sample, totalPRs, mergedPRs);
+  }
+
+  /**
+   * Reads the candidate's commits from the history of their 5 most recently
+   * updated repositories (forks excluded): the latest 200 commits of each,
+   * filtered by author. Line stats come from the diffstat of the commits kept
+   * as evidence.
+   */
+  async fetchCommitAnalysis(username: string): Promise<CommitAnalysis> {
+    const isAuthor = await this.authorMatcher(username);
+    const repos = (await this.recentRepos(username, 15)).filter((repo) => repo.parent === undefined).slice(0, 5);
+    const histories = await Promise.all(
+      repos.map(async (repo) => {
+        try {
+          const commits = await this.paginate<BitbucketCommit>(
+            `/repositories/${repo.full_name}/commits`,
+            { pagelen: 100 },
+            2,
+          );
+          return commits
+            .filter((commit) => commit.author.user && isAuthor(commit.author.user))
+            .map((commit): Commit => ({
+              sha: commit.hash,
+              repo: repo.full_name,
+              // No activity feed to point at, so the commit stands in for its event
+              eventId: commit.hash,
+              html_url: commit.links.html?.href ?? `${this.webUrl}/${repo.full_name}/commits/${commit.hash}`,
+              message: commit.message.trim(),
+              date: commit.date,
+              additions: 0,
+              deletions: 0,
+            }));
+        } catch (error) {
+          if (error instanceof CodeHostNotFoundError) return [];
+          throw error;
+        }
+      }),
+    );
+
+    const since = commitWindowStart();
+    const commits = histories.flat().filter((commit) => new Date(commit.date) > since).sort(byNewestCommit);
+    await Promise.all(
+      commits.slice(0, 10).map(async (commit) => {
+        const files = await this.paginate<BitbucketDiffStat>(
+          `/repositories/${commit.repo}/diffstat/${commit.sha}`,
+          { pagelen: 100 },
+          3,
+        );
+        commit.additions = files.reduce((sum, file) => sum + file.lines_added, 0);
+        commit.deletions = files.reduce((sum, file) => sum + file.lines_removed, 0);
+      }),
+    );
+    return summarizeCommits(commits);
+  }
+
+  async fetchStarredRepos(): Promise<StarredRepos> {
+    return summarizeStarred([]);
+  }
+
+  /** Bitbucket Cloud cannot search pull requests across workspaces, so none are found. */
+  async fetchExternalContributions(): Promise<ExternalContributions> {
+    return summarizeExternalContributions([], []);
+  }
+
+  /** Nor can it list the pull requests someone reviewed outside their own workspace. */
+  async fetchReviewActivity(): Promise<ReviewActivity> {
+    return summarizeReviewActivity([], 0);
+  }
+
+  async fetchCodeSample(username: string, repos?: Repos): Promise<CodeSample> {
+    const sampled = significantRepos(repos ?? (await this.fetchRepos(username)));
+    return summarizeCodeSample(await Promise.all(sampled.map((repo) => this.repoCodeSample(repo))));
+  }
+
+  private async recentRepos(username: string, count: number): Promise<BitbucketRepo[]> {
+    const page = await this.client.get<BitbucketPage<BitbucketRepo>>(`/repositories/${username}`, {
+      sort: '-updated_on',
+      pagelen: count,
+    });
+    return page.values;
+  }
+
+  /** A personal workspace shares its owner's uuid, which identifies their pull requests and commits. */
+  private async authorMatcher(username: string): Promise<(account: BitbucketAccount) => boolean> {
+    const workspace = await this.client.get<BitbucketWorkspace>(`/workspaces/${username}`);
+    return (account) =>
+      account.uuid === workspace.uuid || account.nickname?.toLowerCase() === username.toLowerCase();
+  }
+
+  /** Reads who wrote the latest 100 commits, and the README on the main branch. */
+  private async repoSignals(
+    repo: BitbucketRepo,
+    isAuthor: (account: BitbucketAccount) => boolean,
+  ): Promise<RepoSignals> {
+    const [commits, readme] = await Promise.all([
+      this.client
+        .get<BitbucketPage<BitbucketCommit>>(`/repositories/${repo.full_name}/commits`, { pagelen: 100 })
+        .then((page) => page.values)
+        .catch((error: unknown) => {
+          // An empty repository has no history
+          if (error instanceof CodeHostNotFoundError) return [];
+          throw error;
+        }),
+      repo.mainbranch
+        ? this.client
+            .getText(`/repositories/${repo.full_name}/src/${encodeURIComponent(repo.mainbranch.name)}/README.md`)
+            .catch((error: unknown) => {
+              if (error instanceof CodeHostNotFoundError) return null;
+              throw error;
+            })
+        : null,
+    ]);
+    return {
+      name: repo.name,
+      description: repo.description || null,
+      fork: repo.parent !== undefined,
+      commits: commits.length,
+      ownCommits: commits.filter((commit) => commit.author.user && isAuthor(commit.author.user)).length,
+      headSha: commits[0]?.hash ?? null,
+      readme,
+    };
+  }
+
+  /** Bitbucket pages carry the next page's URL in the body rather than a Link header. */
+  private async paginate<T>(
+    path: string,
+    params: Record<string, string | number>,
+    maxPages: number,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = await this.client.get<BitbucketPage<T>>(path, params);
+    items.push(...page.values);
+    for (let pages = 1; page.next && pages < maxPages; pages++) {
+      page = await this.client.get<BitbucketPage<T>>(page.next);
+      items.push(...page.values);
+    }
+    return items;
+  }
+
+  /**
+   * Sizes a pull request from its diffstat and builds its review timeline
+   * from the activity log, where the author's updates stand in for pushes.
+   */
+  private async pullRequestDetail(
+    repo: BitbucketRepo,
+    pr: BitbucketPullRequest,
+    isAuthor: (account: BitbucketAccount) => boolean,
+  ): Promise<PullRequest> {
+    const path = `/repositories/${repo.full_name}/pullrequests/${pr.id}`;
+    const [diffstat, activity, commits] = await Promise.all([
+      this.paginate<BitbucketDiffStat>(`${path}/diffstat`, { pagelen: 100 }, 3),
+      this.paginate<BitbucketActivity>(`${path}/activity`, { pagelen: 50 }, 3),
+      this.paginate<BitbucketCommit>(`${path}/commits`, { pagelen: 100 }, 3),
+    ]);
+    const actor = (account: BitbucketAccount) => (isAuthor(account) ? 'author' : 'reviewer');
+
+    const events = activity.flatMap((entry): ReviewEvent[] => {
+      if (entry.approval) return [{ at: entry.approval.date, actor: actor(entry.approval.user), action: 'approved' }];
+      if (entry.changes_requested) {
+        const { date, user } = entry.changes_requested;
+        return [{ at: date, actor: actor(user), action: 'changes_requested' }];
+      }
+      if (entry.comment) {
+        return [{ at: entry.comment.created_on, actor: actor(entry.comment.user), action: 'commented' }];
+      }
+      if (entry.update && isAuthor(entry.update.author)) {
+        return [{ at: entry.update.date, actor: 'author', action: 'pushed' }];
+      }
+      return [];
+    });
+    // Bitbucket has no merge timestamp; a merged pull request is last updated by its merge
+    const mergedAt = pr.state === 'MERGED' ? pr.updated_on : null;
+
+    return {
+      repo: repo.full_name,
+      number: pr.id,
+      html_url: pr.links.html?.href ?? `${this.webUrl}/${repo.full_name}/pull-requests/${pr.id}`,
+      title: pr.title,
+      body: pr.description || null,
+      state: pr.state === 'OPEN' ? 'open' : 'closed',
+      created_at: pr.created_on,
+      merged_at: mergedAt,
+      additions: diffstat.reduce((sum, file) => sum + file.lines_added, 0),
+      deletions: diffstat.reduce((sum, file) => sum + file.lines_removed, 0),
+      changed_files: diffstat.length,
+      review_comments: pr.comment_count,
+      commits: commits.length,
+      review: summarizeReview({ created_at: pr.created_on, merged_at: mergedAt }, events),
+    };
+  }
+
+  /**
+   * Lists the main branch's files from a recursive source listing and reads
+   * the picked ones raw. A repository without commits has no main branch.
+   */
+  private async repoCodeSample(repo: Repos[number]): Promise<RepoCodeSample> {
+    const { mainbranch } = await this.client.get<BitbucketRepo>(`/repositories/${repo.full_name}`);
+    const source = mainbranch
+      ? `/repositories/${repo.full_name}/src/${encodeURIComponent(mainbranch.name)}`
+      : undefined;
+    const entries = source
+      ? await this.paginate<BitbucketSourceEntry>(`${source}/`, { pagelen: 100, max_depth: 20 }, MAX_SOURCE_PAGES)
+      : [];
+
+    const files = entries.flatMap((entry): RepoFile[] =>
+      entry.type === 'commit_file' ? [{ path: entry.path, size: entry.size }] : [],
+    );
+    const contents = await readFiles(filesToRead(files), (path) =>
+      this.client.getText(`${source}/${encodeFilePath(path)}`),
+    );
+    return summarizeRepoCode(
+      repo,
+      files,
+      contents,
+      (path) => `${repo.html_url}/src/${mainbranch?.name}/${path}`,
+      entries.length >= MAX_SOURCE_PAGES * 100,
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import fetch, { Response } from 'node-fetch';
+
+import { CodeHostClient } from '../code-host-client';
+import { fixtureFetch, fixtureKey } from '../code-host-fixtures';
+import { isOriginalWork } from '../repo-classification';
+import { GitHubProvider } from './github';
+
+// The commit window and language recency are measured from now; the cassette was recorded for this date
+const NOW = new Date('2026-10-01T00:00:00Z').getTime();
+
+describe('GitHubProvider', () => {
+  const github = new GitHubProvider();
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('classifies recently pushed repos', async () => {
+    const repos = await github.fetchRepos('octo-dev');
+
+    expect(repos.map((repo) => [repo.name, repo.classification?.kind])).toEqual([
+      ['taskboard', 'original'],
+      ['api-kit', 'original'],
+      ['dotfiles', 'profile'],
+      ['lodash', 'untouched_fork'],
+    ]);
+  });
+
+  it('leaves a repo unclassified rather than failing when its signals cannot be read', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const replay = fixtureFetch('replay', process.env.CODE_HOST_CASSETTE as string);
+    const flaky = new GitHubProvider(
+      new CodeHostClient({
+        host: 'GitHub',
+        baseUrl: 'https://api.github.com',
+        maxRetries: 0,
+        fetchImpl: (async (url: string) =>
+          /\/(api-kit|lodash)\/readme/.test(url)
+            ? new Response('unavailable', { status: 503 })
+            : replay(url)) as typeof fetch,
+      }),
+    );
+
+    const repos = await flaky.fetchRepos('octo-dev');
+
+    expect(repos.map((repo) => [repo.name, repo.classification?.kind])).toEqual([
+      ['taskboard', 'original'],
+      ['api-kit', undefined],
+      ['dotfiles', 'profile'],
+      ['lodash', undefined],
+    ]);
+    // An unclassified fork is still not the candidate's own work
+    expect(repos.filter(isOriginalWork).map((repo) => repo.name)).toEqual(['taskboard', 'api-kit']);
+  });
+
+  it('weighs languages by bytes of code, leaving out forks', async () => {
+    const stats = await github.fetchLanguageStats('octo-dev');
+
+    expect(stats.weighting).toBe('bytes');
+    expect(stats.totalRepos).toBe(3);
+    expect(stats.excludedRepos).toEqual({ forks: 1, archived: 0, templates: 0 });
+    expect(stats.topLanguages).toEqual([
+      { name: 'TypeScript', count: 1, percentage: 59, bytes: 48200 },
+      { name: 'Go', count: 1, percentage: 26, bytes: 21400 },
+      { name: 'CSS', count: 1, percentage: 8, bytes: 6100 },
+      { name: 'Shell', count: 1, percentage: 4, bytes: 3900 },
+      { name: 'HTML', count: 1, percentage: 2, bytes: 1700 },
+    ]);
+  });
+
+  it('counts excluded repos on every page of a long repo list', async () => {
+    const replay = fixtureFetch('replay', process.env.CODE_HOST_CASSETTE as string);
+    const firstPage = 'https://api.github.com/users/octo-dev/repos?per_page=100&sort=pushed&type=owner';
+    const paged = new GitHubProvider(
+      new CodeHostClient({
+        host: 'GitHub',
+        baseUrl: 'https://api.github.com',
+        fetchImpl: (async (url: string) => {
+          if (url.includes('page=2')) {
+            const fork = { name: 'old-fork', full_name: 'octo-dev/old-fork', fork: true, archived: false };
+            return new Response(JSON.stringify([fork]), { headers: { 'content-type': 'application/json' } });
+          }
+          const response = await replay(url);
+          if (fixtureKey(url) !== firstPage) return response;
+          return new Response(await response.text(), {
+            headers: { 'content-type': 'application/json', link: `<${firstPage}&page=2>; rel="next"` },
+          });
+        }) as typeof fetch,
+      }),
+    );
+
+    const stats = await paged.fetchLanguageStats('octo-dev');
+
+    expect(stats.totalRepos).toBe(3);
+    expect(stats.excludedRepos).toEqual({ forks: 2, archived: 0, templates: 0 });
+  });
+
+  it("computes the merge rate over the user's own pull requests", async () => {
+    const stats = await github.fetchPullRequests('octo-dev');
+
+    expect(stats.totalPRs).toBe(4);
+    expect(stats.mergeRate).toBe(75);
+    expect(stats.recentPRs.map((pr) => pr.number)).toEqual([14, 12, 4, 10]);
+    expect(stats.recentPRs[0].review).toEqual({
+      hoursToFirstReview: 5,
+      hoursToMerge: 31.8,
+      rounds: 2,
+      changesRequested: 1,
+      authorResponse: 'revised_and_discussed',
+    });
+    expect(stats.revisedAfterChangesRate).toBe(100);
+  });
+
+  it('counts the user’s own pull requests whatever the case of the username typed', async () => {
+    const replay = fixtureFetch('replay', process.env.CODE_HOST_CASSETTE as string);
+    // GitHub paths are case-insensitive, so any casing reaches the recorded responses
+    const anyCase = new GitHubProvider(
+      new CodeHostClient({
+        host: 'GitHub',
+        baseUrl: 'https://api.github.com',
+        fetchImpl: ((url: string) => replay(url.replace(/octo-dev/gi, 'octo-dev'))) as typeof fetch,
+      }),
+    );
+
+    const stats = await anyCase.fetchPullRequests('Octo-Dev');
+
+    expect(stats.totalPRs).toBe(4);
+    expect(stats.mergeRate).toBe(75);
+  });
+
+  it('rates commits from the last year of repository history', async () => {
+    const analysis = await github.fetchCommitAnalysis('octo-dev');
+
+    expect(analysis.totalCommits).toBe(12);
+    expect(analysis.commitFrequency).toBe('Low');
+    expect(analysis.commitMessageQuality).toBe('Good');
+    expect(analysis.recentCommits[0]).toMatchObject({ sha: '9f1c2ab', additions: 18, deletions: 6 });
+    expect(analysis.recentCommits.map((commit) => commit.repo)).not.toContain('octo-dev/lodash');
+  });
+
+  it('summarizes pull requests to other people’s repos with the maintainers’ verdicts', async () => {
+    const external = await github.fetchExternalContributions('octo-dev');
+
+    expect(external).toMatchObject({ totalPRs: 3, merged: 2, closed: 1, open: 0, mergeRate: 67 });
+    expect(external.recentPRs.map((pr) => [pr.number, pr.maintainerReview])).toEqual([
+      [912, 'approved'],
+      [887, 'approved'],
+      [18450, 'commented'],
+    ]);
+    expect(external.projects.map((project) => project.repo)).toEqual(['go-chi/chi', 'vitejs/vite']);
+  });
+
+  it('collects the reviews the user gave', async () => {
+    const activity = await github.fetchReviewActivity('octo-dev');
+
+    expect(activity).toMatchObject({
+      reviewedPRs: 2,
+      totalReviews: 3,
+      approvals: 1,
+      changesRequested: 1,
+      commentOnly: 1,
+      inlineComments: 1,
+    });
+  });
+
+  it('samples code from the most significant original repos', async () => {
+    const sample = await github.fetchCodeSample('octo-dev');
+
+    expect(sample.sampledRepos).toBe(2);
+    expect(sample.withTests).toBe(2);
+    expect(sample.withCI).toBe(1);
+  });
+
+  it('skips a sampled file that cannot be read instead of failing the sample', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const replay = fixtureFetch('replay', process.env.CODE_HOST_CASSETTE as string);
+    const partial = new GitHubProvider(
+      new CodeHostClient({
+        host: 'GitHub',
+        baseUrl: 'https://api.github.com',
+        fetchImpl: (async (url: string) =>
+          url.endsWith('/api-kit/contents/handler.go')
+            ? new Response('{"message":"Not Found"}', { status: 404 })
+            : replay(url)) as typeof fetch,
+      }),
+    );
+
+    const sample = await partial.fetchCodeSample('octo-dev');
+    const apiKit = sample.repos.find((repo) => repo.repo === 'octo-dev/api-kit');
+
+    expect(sample.sampledRepos).toBe(2);
+    expect(apiKit?.snippets.map((snippet) => snippet.path)).toEqual(['pagination/page.go', 'handler_test.go']);
+  });
+
+  it('samples code from repos it is given without fetching them again', async () => {
+    const repos = await github.fetchRepos('octo-dev');
+    const get = jest.spyOn(CodeHostClient.prototype, 'get');
+
+    const sample = await github.fetchCodeSample('octo-dev', repos);
+
+    expect(sample.sampledRepos).toBe(2);
+    expect(get).not.toHaveBeenCalledWith('/users/octo-dev/repos', expect.anything());
+  });
+});
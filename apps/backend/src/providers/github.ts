@@ -0,0 +1,578 @@
+import {
+  CodeHostProvider,
+  Commit,
+  CommitAnalysis,
+  ExternalContributions,
+  ExternalPullRequest,
+  LANGUAGE_REPOS,
+  LanguageStats,
+  Profile,
+  PullRequest,
+  PullRequestStats,
+  Repos,
+  ReviewActivity,
+  ReviewEvent,
+  ReviewGiven,
+  StarredRepos,
+  UpstreamRepo,
+  byNewestCommit,
+  commitWindowStart,
+  summarizeCommits,
+  summarizeExternalContributions,
+  summarizeLanguageUsage,
+  summarizePullRequests,
+  summarizeReview,
+  summarizeReviewActivity,
+  summarizeStarred,
+  topUpstreamRepos,
+} from '../code-host';
+import {
+  CodeSample,
+  RepoCodeSample,
+  encodeFilePath,
+  filesToRead,
+  readFiles,
+  significantRepos,
+  summarizeCodeSample,
+  summarizeRepoCode,
+} from '../code-sample';
+import { RepoSignals, classifyFrom } from '../repo-classification';
+import { CodeHostApiError, CodeHostClient, CodeHostNotFoundError } from '../code-host-client';
+
+// GitHub REST payloads (only the fields the provider reads)
+interface GitHubUser {
+  login: string;
+  id: number;
+  avatar_url: string;
+  html_url: string;
+  name: string | null;
+  company: string | null;
+  blog: string | null;
+  location: string | null;
+  bio: string | null;
+  public_repos: number;
+  followers: number;
+  following: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GitHubRepo {
+  name: string;
+  full_name: string;
+  html_url: string;
+  description: string | null;
+  language: string | null;
+  pushed_at: string;
+  stargazers_count: number;
+  forks: number;
+  fork: boolean;
+  archived: boolean;
+  is_template: boolean;
+  created_at: string;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  title: string;
+  body: string | null;
+  state: string;
+  created_at: string;
+  merged_at: string | null;
+  user: { login: string };
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  review_comments?: number;
+  commits?: number;
+}
+
+interface GitHubSearchResult<T> {
+  total_count: number;
+  items: T[];
+}
+
+// Pull requests come back from the search API as issues
+interface GitHubIssue {
+  number: number;
+  html_url: string;
+  title: string;
+  state: 'open' | 'closed';
+  created_at: string;
+  repository_url: string;
+  pull_request?: { merged_at: string | null };
+}
+
+interface GitHubReview {
+  id: number;
+  body: string | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  author_association: string;
+  user: { login: string } | null;
+  submitted_at?: string;
+}
+
+interface GitHubReviewComment {
+  user: { login: string } | null;
+  created_at: string;
+  body: string;
+  pull_request_review_id: number | null;
+}
+
+interface GitHubPullRequestCommit {
+  author: { login: string } | null;
+  commit: { committer: { date: string } | null };
+}
+
+interface GitHubCommit {
+  sha: string;
+  html_url: string;
+  author: { login: string } | null;
+  commit: {
+    message: string;
+    author: { date: string } | null;
+    committer: { date: string } | null;
+  };
+  stats?: { additions: number; deletions: number };
+}
+
+interface GitHubTree {
+  tree: { path: string; type: 'blob' | 'tree' | 'commit'; size?: number }[];
+  truncated: boolean;
+}
+
+interface GitHubContent {
+  content: string;
+}
+
+const repoOf = (issue: GitHubIssue) => issue.repository_url.replace(/^.*\/repos\//, '');
+
+// Reviews from these count as the upstream project's verdict
+const MAINTAINER_ASSOCIATIONS = new Set(['OWNER', 'MEMBER', 'COLLABORATOR']);
+
+// Pending and dismissed reviews are not a verdict
+const reviewActions: Partial<Record<GitHubReview['state'], 'approved' | 'changes_requested' | 'commented'>> = {
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'changes_requested',
+  COMMENTED: 'commented',
+};
+
+export class GitHubProvider implements CodeHostProvider {
+  readonly host = 'github' as const;
+  readonly webUrl = 'https://github.com';
+
+  constructor(
+    private readonly client = new CodeHostClient({
+      host: 'GitHub',
+      baseUrl: 'https://api.github.com',
+      token: () => process.env.GITHUB_TOKEN,
+      accept: 'application/vnd.github.v3+json',
+    }),
+  ) {}
+
+  async fetchProfile(username: string): Promise<Profile> {
+    const profile = await this.client.get<GitHubUser>(`/users/${username}`);
+    return {
+      login: profile.login,
+      id: String(profile.id),
+      avatar_url: profile.avatar_url,
+      html_url: profile.html_url,
+      name: profile.name,
+      company: profile.company,
+      blog: profile.blog,
+      location: profile.location,
+      bio: profile.bio,
+      public_repos: profile.public_repos,
+      followers: profile.followers,
+      following: profile.following,
+      created_at: profile.created_at,
+      updated_at: profile.updated_at,
+    };
+  }
+
+  async fetchRepos(username: string): Promise<Repos> {
+    const repos = await this.client.get<GitHubRepo[]>(`/users/${username}/repos`, {
+      sort: 'pushed',
+      per_page: 15,
+    });
+    return Promise.all(
+      repos.map(async (repo) => ({
+        name: repo.name,
+        full_name: repo.full_name,
+        html_url: repo.html_url,
+        language: repo.language,
+        pushed_at: repo.pushed_at,
+        stargazers_count: repo.stargazers_count,
+        forks: repo.forks,
+        fork: repo.fork,
+        parent: repo.fork ? await this.parentUrl(repo.full_name) : undefined,
+        ...(await classifyFrom(username, repo.full_name, () => this.repoSignals(username, repo))),
+      })),
+    );
+  }
+
+  /**
+   * Weighs languages by bytes of code in the most recently pushed repositories
+   * the user owns, from the languages endpoint of each.
+   */
+  async fetchLanguageStats(username: string): Promise<LanguageStats> {
+    // Every page, so the excluded counts cover all of the user's repositories
+    const repos = await this.client.paginate<GitHubRepo>(`/users/${username}/repos`, {
+      params: { type: 'owner', sort: 'pushed' },
+    });
+    const own = repos.filter((repo) => !repo.fork && !repo.archived && !repo.is_template);
+    const usage = await Promise.all(
+      own.slice(0, LANGUAGE_REPOS).map(async (repo) => ({
+        languages: await this.client.get<Record<string, number>>(`/repos/${repo.full_name}/languages`),
+        created_at: repo.created_at,
+        pushed_at: repo.pushed_at,
+      })),
+    );
+    return summarizeLanguageUsage(usage, 'bytes', {
+      forks: repos.filter((repo) => repo.fork).length,
+      archived: repos.filter((repo) => !repo.fork && repo.archived).length,
+      templates: repos.filter((repo) => !repo.fork && !repo.archived && repo.is_template).length,
+    });
+  }
+
+  async fetchPullRequests(username: string): Promise<PullRequestStats> {
+    const repos = await this.client.get<GitHubRepo[]>(`/users/${username}/repos`, {
+      sort: 'updated',
+      per_page: 10,
+    });
+    const sample: PullRequest[] = [];
+    let totalPRs = 0;
+    let mergedPRs = 0;
+
+    for (const repo of repos.slice(0, 5)) {
+      try {
+        const prs = await this.client.get<GitHubPullRequest[]>(
+          `/repos/${username}/${repo.name}/pulls`,
+          { state: 'all', per_page: 10 },
+        );
+        const userPRs = prs.filter((pr) => pr.user.login.toLowerCase() === username.toLowerCase());
+        sample.push(
+          ...(await Promise.all(userPRs.slice(0, 3).map((pr) => this.pullRequestDetail(repo.full_name, pr)))),
+        );
+        totalPRs += userPRs.length;
+        mergedPRs += userPRs.filter((pr) => pr.merged_at).length;
+      } catch (error) {
+        if (!(error instanceof CodeHostNotFoundError)) throw error;
+      }
+    }
+
+    return summarizePullRequests(sample, totalPRs, mergedPRs);
+  }
+
+  /**
+   * Reads the candidate's commits from the history of their 5 most recently
+   * pushed repositories (forks excluded), up to 200 per repository over the
+   * commit window. Line stats are fetched for the commits kept as evidence.
+   */
+  async fetchCommitAnalysis(username: string): Promise<CommitAnalysis> {
+    const repos = await this.client.get<GitHubRepo[]>(`/users/${username}/repos`, {
+      sort: 'pushed',
+      per_page: 15,
+    });
+    const since = commitWindowStart().toISOString();
+    const histories = await Promise.all(
+      repos
+        .filter((repo) => !repo.fork)
+        .slice(0, 5)
+        .map(async (repo) => {
+          try {
+            const commits = await this.client.paginate<GitHubCommit>(`/repos/${repo.full_name}/commits`, {
+              params: { author: username, since },
+              maxPages: 2,
+            });
+            return commits.map((commit): Commit => ({
+              sha: commit.sha,
+              repo: repo.full_name,
+              // No activity feed to point at, so the commit stands in for its event
+              eventId: commit.sha,
+              html_url: commit.html_url,
+              message: commit.commit.message,
+              date: commit.commit.author?.date ?? commit.commit.committer?.date ?? '',
+              additions: 0,
+              deletions: 0,
+            }));
+          } catch (error) {
+            // GitHub answers 409 for an empty repository, which has no history to read
+            if (error instanceof CodeHostNotFoundError) return [];
+            if (error instanceof CodeHostApiError && error.status === 409) return [];
+            throw error;
+          }
+        }),
+    );
+
+    const commits = histories.flat().sort(byNewestCommit);
+    await Promise.all(
+      commits.slice(0, 10).map(async (commit) => {
+        const detail = await this.client.get<GitHubCommit>(`/repos/${commit.repo}/commits/${commit.sha}`);
+        commit.additions = detail.stats?.additions ?? 0;
+        commit.deletions = detail.stats?.deletions ?? 0;
+      }),
+    );
+    return summarizeCommits(commits);
+  }
+
+  async fetchStarredRepos(username: string): Promise<StarredRepos> {
+    const starred = await this.client.paginate<GitHubRepo>(`/users/${username}/starred`, {
+      params: { sort: 'created' },
+      maxPages: 5,
+    });
+    return summarizeStarred(
+      starred.map((repo) => ({
+        name: repo.name,
+        language: repo.language,
+        description: repo.description,
+        stargazers_count: repo.stargazers_count,
+      })),
+    );
+  }
+
+  /**
+   * Searches for pull requests authored by the user outside their own repos.
+   * Only the 100 most recent are looked at, upstream details are fetched for
+   * the 10 most contributed-to repos and reviews for the 10 most recent PRs.
+   */
+  async fetchExternalContributions(username: string): Promise<ExternalContributions> {
+    const search = await this.client.get<GitHubSearchResult<GitHubIssue>>('/search/issues', {
+      q: `author:${username} type:pr -user:${username}`,
+      sort: 'created',
+      order: 'desc',
+      per_page: 100,
+    });
+    const prs: ExternalPullRequest[] = search.items.map((issue) => {
+      const mergedAt = issue.pull_request?.merged_at ?? null;
+      return {
+        repo: repoOf(issue),
+        number: issue.number,
+        html_url: issue.html_url,
+        title: issue.title,
+        state: mergedAt ? 'merged' : issue.state,
+        created_at: issue.created_at,
+        merged_at: mergedAt,
+        maintainerReview: null,
+      };
+    });
+
+    const recent = [...prs].sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, 10);
+    await Promise.all(
+      recent.map(async (pr) => {
+        pr.maintainerReview = await this.maintainerReview(pr.repo, pr.number);
+      }),
+    );
+
+    const upstream = await Promise.all(
+      topUpstreamRepos(prs, 10).map((repo) => this.upstreamRepo(repo)),
+    );
+    return summarizeExternalContributions(
+      prs,
+      upstream.filter((repo): repo is UpstreamRepo => repo !== null),
+      search.total_count,
+    );
+  }
+
+  /**
+   * Reviews the user submitted on the 10 pull requests by others they most
+   * recently reviewed, with the inline comments of each review.
+   */
+  async fetchReviewActivity(username: string): Promise<ReviewActivity> {
+    const search = await this.client.get<GitHubSearchResult<GitHubIssue>>('/search/issues', {
+      q: `type:pr reviewed-by:${username} -author:${username}`,
+      sort: 'updated',
+      order: 'desc',
+      per_page: 10,
+    });
+    const reviews = await Promise.all(search.items.map((issue) => this.reviewsBy(username, issue)));
+    return summarizeReviewActivity(reviews.flat(), search.total_count);
+  }
+
+  async fetchCodeSample(username: string, repos?: Repos): Promise<CodeSample> {
+    const sampled = significantRepos(repos ?? (await this.fetchRepos(username)));
+    return summarizeCodeSample(await Promise.all(sampled.map((repo) => this.repoCodeSample(repo))));
+  }
+
+  private async reviewsBy(username: string, issue: GitHubIssue): Promise<ReviewGiven[]> {
+    const repo = repoOf(issue);
+    const path = `/repos/${repo}/pulls/${issue.number}`;
+    const isUser = (user: { login: string } | null) => user?.login.toLowerCase() === username.toLowerCase();
+    try {
+      const [reviews, comments] = await Promise.all([
+        this.client.paginate<GitHubReview>(`${path}/reviews`, { maxPages: 3 }),
+        this.client.paginate<GitHubReviewComment>(`${path}/comments`, { maxPages: 3 }),
+      ]);
+      return reviews.flatMap((review) => {
+        const state = reviewActions[review.state];
+        if (!isUser(review.user) || !state || !review.submitted_at) return [];
+        return [{
+          repo,
+          number: issue.number,
+          html_url: issue.html_url,
+          state,
+          submitted_at: review.submitted_at,
+          body: review.body || null,
+          comments: comments
+            .filter((comment) => comment.pull_request_review_id === review.id)
+            .map((comment) => comment.body),
+        }];
+      });
+    } catch (error) {
+      if (error instanceof CodeHostNotFoundError) return [];
+      throw error;
+    }
+  }
+
+  /** The latest decisive review by a maintainer, or their latest comment when none decided. */
+  private async maintainerReview(repo: string, number: number): Promise<ExternalPullRequest['maintainerReview']> {
+    try {
+      const reviews = await this.client.get<GitHubReview[]>(`/repos/${repo}/pulls/${number}/reviews`, {
+        per_page: 100,
+      });
+      const outcomes = reviews
+        .filter((review) => MAINTAINER_ASSOCIATIONS.has(review.author_association))
+        .map((review) => reviewActions[review.state])
+        .filter((outcome) => outcome !== undefined);
+      const decisive = outcomes.filter((outcome) => outcome !== 'commented');
+      return decisive.at(-1) ?? outcomes.at(-1) ?? 'unreviewed';
+    } catch (error) {
+      if (error instanceof CodeHostNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  private async upstreamRepo(fullName: string): Promise<UpstreamRepo | null> {
+    try {
+      const repo = await this.client.get<GitHubRepo>(`/repos/${fullName}`);
+      // Keyed by the name the PRs were found under, even if the repo was renamed since
+      return {
+        full_name: fullName,
+        html_url: repo.html_url,
+        stargazers_count: repo.stargazers_count,
+        language: repo.language,
+      };
+    } catch (error) {
+      if (error instanceof CodeHostNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * The list endpoint leaves out size, commit and review comment counts, so
+   * every sampled pull request is read from its detail endpoint, and its
+   * reviews, review comments and commits make up its review timeline.
+   */
+  private async pullRequestDetail(repo: string, listed: GitHubPullRequest): Promise<PullRequest> {
+    const path = `/repos/${repo}/pulls/${listed.number}`;
+    const [pr, reviews, comments, commits] = await Promise.all([
+      this.client.get<GitHubPullRequest>(path),
+      this.client.paginate<GitHubReview>(`${path}/reviews`, { maxPages: 3 }),
+      this.client.paginate<GitHubReviewComment>(`${path}/comments`, { maxPages: 3 }),
+      this.client.paginate<GitHubPullRequestCommit>(`${path}/commits`, { maxPages: 3 }),
+    ]);
+    const author = pr.user.login;
+
+    const events: ReviewEvent[] = [
+      ...reviews.flatMap((review): ReviewEvent[] => {
+        const action = reviewActions[review.state];
+        if (!action || !review.submitted_at) return [];
+        return [{ at: review.submitted_at, actor: review.user?.login === author ? 'author' : 'reviewer', action }];
+      }),
+      // Reviewer comments arrive with their review; only the author's replies add to the timeline
+      ...comments
+        .filter((comment) => comment.user?.login === author)
+        .map((comment): ReviewEvent => ({ at: comment.created_at, actor: 'author', action: 'commented' })),
+      ...commits.flatMap((commit): ReviewEvent[] =>
+        commit.author?.login === author && commit.commit.committer
+          ? [{ at: commit.commit.committer.date, actor: 'author', action: 'pushed' }]
+          : [],
+      ),
+    ];
+
+    return {
+      repo,
+      number: pr.number,
+      html_url: pr.html_url,
+      title: pr.title,
+      body: pr.body,
+      state: pr.state,
+      created_at: pr.created_at,
+      merged_at: pr.merged_at,
+      additions: pr.additions ?? 0,
+      deletions: pr.deletions ?? 0,
+      changed_files: pr.changed_files ?? 0,
+      review_comments: pr.review_comments ?? 0,
+      commits: pr.commits ?? 0,
+      review: summarizeReview(pr, events),
+    };
+  }
+
+  /** Reads who wrote the latest 100 commits on the default branch, and the README. */
+  private async repoSignals(username: string, repo: GitHubRepo): Promise<RepoSignals> {
+    const [commits, readme] = await Promise.all([this.latestCommits(repo.full_name), this.readme(repo.full_name)]);
+    return {
+      name: repo.name,
+      description: repo.description,
+      fork: repo.fork,
+      commits: commits.length,
+      ownCommits: commits.filter((commit) => commit.author?.login.toLowerCase() === username.toLowerCase()).length,
+      headSha: commits[0]?.sha ?? null,
+      readme,
+    };
+  }
+
+  /** The repository list leaves out what a fork was made from; only the repository itself has it. */
+  private async parentUrl(fullName: string): Promise<string | undefined> {
+    try {
+      const repo = await this.client.get<{ parent?: { html_url: string } }>(`/repos/${fullName}`);
+      return repo.parent?.html_url;
+    } catch (error) {
+      // Only used to spot duplicates across linked accounts, so not worth failing the repos step for
+      console.warn(`Could not read the parent of ${fullName}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private async latestCommits(fullName: string): Promise<GitHubCommit[]> {
+    try {
+      return await this.client.get<GitHubCommit[]>(`/repos/${fullName}/commits`, { per_page: 100 });
+    } catch (error) {
+      // GitHub answers 409 for an empty repository
+      if (error instanceof CodeHostApiError && error.status === 409) return [];
+      throw error;
+    }
+  }
+
+  private async readme(fullName: string): Promise<string | null> {
+    try {
+      const file = await this.client.get<GitHubContent>(`/repos/${fullName}/readme`);
+      return Buffer.from(file.content, 'base64').toString('utf8');
+    } catch (error) {
+      if (error instanceof CodeHostNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the repository's tree in one recursive request (GitHub truncates
+   * very large trees) and the files picked from it by `filesToRead`.
+   */
+  private async repoCodeSample(repo: Repos[number]): Promise<RepoCodeSample> {
+    let tree: GitHubTree = { tree: [], truncated: false };
+    try {
+      tree = await this.client.get<GitHubTree>(`/repos/${repo.full_name}/git/trees/HEAD`, { recursive: 1 });
+    } catch (error) {
+      // An empty repository has no tree: GitHub answers 409
+      if (!(error instanceof CodeHostApiError && [404, 409].includes(error.status))) throw error;
+    }
+
+    const files = tree.tree.flatMap((entry) => (entry.type === 'blob' ? [{ path: entry.path, size: entry.size }] : []));
+    const contents = await readFiles(filesToRead(files), async (path) => {
+      const file = await this.client.get<GitHubContent>(`/repos/${repo.full_name}/contents/${encodeFilePath(path)}`);
+      return Buffer.from(file.content, 'base64').toString('utf8');
+    });
+    return summarizeRepoCode(repo, files, contents, (path) => `${repo.html_url}/blob/HEAD/${path}`, tree.truncated);
+  }
+}
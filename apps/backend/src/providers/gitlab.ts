@@ -0,0 +1,558 @@
+import {
+  CodeHostProvider,
+  Commit,
+  CommitAnalysis,
+  ExternalContributions,
+  ExternalPullRequest,
+  LANGUAGE_REPOS,
+  LanguageStats,
+  Profile,
+  PullRequest,
+  PullRequestStats,
+  Repos,
+  ReviewActivity,
+  ReviewEvent,
+  ReviewGiven,
+  StarredRepos,
+  UpstreamRepo,
+  byNewestCommit,
+  commitWindowStart,
+  summarizeCommits,
+  summarizeExternalContributions,
+  summarizeLanguageUsage,
+  summarizePullRequests,
+  summarizeReview,
+  summarizeReviewActivity,
+  summarizeStarred,
+  topUpstreamRepos,
+} from '../code-host';
+import {
+  CodeSample,
+  RepoCodeSample,
+  RepoFile,
+  filesToRead,
+  readFiles,
+  significantRepos,
+  summarizeCodeSample,
+  summarizeRepoCode,
+} from '../code-sample';
+import { RepoSignals, classifyFrom } from '../repo-classification';
+import { CodeHostClient, CodeHostNotFoundError } from '../code-host-client';
+
+export const GITLAB_URL = 'https://gitlab.com';
+
+// GitLab REST v4 payloads (only the fields the provider reads)
+interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url: string;
+  web_url: string;
+  created_at?: string;
+  bio?: string | null;
+  location?: string | null;
+  organization?: string | null;
+  website_url?: string | null;
+  followers?: number;
+  following?: number;
+}
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  web_url: string;
+  description: string | null;
+  last_activity_at: string;
+  star_count: number;
+  forks_count: number;
+  forked_from_project?: { id: number; web_url: string };
+  archived: boolean;
+  created_at: string;
+  default_branch?: string;
+  readme_url?: string | null;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  project_id: number;
+  web_url: string;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  created_at: string;
+  merged_at: string | null;
+  user_notes_count: number;
+  author: { username: string };
+}
+
+interface GitLabDiff {
+  diff: string;
+}
+
+interface GitLabNote {
+  body: string;
+  system: boolean;
+  created_at: string;
+  author: { username: string };
+}
+
+interface GitLabApprovals {
+  approved_by: { user: { username: string } }[];
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  authored_date: string;
+  web_url: string;
+  stats?: { additions: number; deletions: number };
+}
+
+interface GitLabTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+interface GitLabFile {
+  content: string;
+}
+
+// Entries read from a repository tree, 100 per page
+const MAX_TREE_PAGES = 10;
+
+const fileName = (url: string) => url.slice(url.lastIndexOf('/') + 1);
+
+const readmePath = (projectId: number, readmeUrl: string) =>
+  `/projects/${projectId}/repository/files/${encodeURIComponent(fileName(readmeUrl))}/raw`;
+
+const sameHost = (a: string, b: string) => new URL(a).host.toLowerCase() === new URL(b).host.toLowerCase();
+
+/**
+ * GitLab.com or a self-hosted instance. GITLAB_TOKEN is only sent to the
+ * instance named by GITLAB_URL (gitlab.com by default) so a user-supplied base
+ * URL can never receive it.
+ */
+export class GitLabProvider implements CodeHostProvider {
+  readonly host = 'gitlab' as const;
+  readonly webUrl: string;
+  private readonly client: CodeHostClient;
+  private readonly userIds = new Map<string, number>();
+
+  constructor(webUrl = GITLAB_URL) {
+    this.webUrl = webUrl.replace(/\/+$/, '');
+    this.client = new CodeHostClient({
+      host: 'GitLab',
+      baseUrl: `${this.webUrl}/api/v4`,
+      token: () =>
+        sameHost(this.webUrl, process.env.GITLAB_URL ?? GITLAB_URL) ? process.env.GITLAB_TOKEN : undefined,
+    });
+  }
+
+  async fetchProfile(username: string): Promise<Profile> {
+    const user = await this.client.get<GitLabUser>(`/users/${await this.userId(username)}`);
+    const projects = await this.client.paginate<GitLabProject>(`/users/${user.id}/projects`, { maxPages: 3 });
+    return {
+      login: user.username,
+      id: String(user.id),
+      avatar_url: user.avatar_url,
+      html_url: user.web_url,
+      name: user.name,
+      company: user.organization || null,
+      blog: user.website_url || null,
+      location: user.location || null,
+      bio: user.bio || null,
+      public_repos: projects.length,
+      followers: user.followers ?? 0,
+      following: user.following ?? 0,
+      created_at: user.created_at ?? '',
+      updated_at: projects[0]?.last_activity_at ?? user.created_at ?? '',
+    };
+  }
+
+  async fetchRepos(username: string): Promise<Repos> {
+    const user = await this.client.get<GitLabUser>(`/users/${await this.userId(username)}`);
+    const projects = await this.recentProjects(username, 15);
+    return Promise.all(
+      projects.map(async (project) => ({
+        name: project.name,
+        full_name: project.path_with_namespace,
+        html_url: project.web_url,
+        language: await this.primaryLanguage(project.id),
+        pushed_at: project.last_activity_at,
+        stargazers_count: project.star_count,
+        forks: project.forks_count,
+        fork: project.forked_from_project !== undefined,
+        parent: project.forked_from_project?.web_url,
+        ...(await classifyFrom(username, project.path_with_namespace, () => this.projectSignals(user, project))),
+      })),
+    );
+  }
+
+  /**
+   * GitLab has no per-project language field and only reports each project's
+   * languages as percentages, so the most recently active projects are looked
+   * up individually and each counts equally, split by those percentages.
+   * GitLab has no template projects.
+   */
+  async fetchLanguageStats(username: string): Promise<LanguageStats> {
+    // Every page, so the excluded counts cover all of the user's projects
+    const projects = await this.client.paginate<GitLabProject>(`/users/${await this.userId(username)}/projects`, {
+      params: { order_by: 'last_activity_at', sort: 'desc' },
+    });
+    const own = projects.filter((project) => project.forked_from_project === undefined && !project.archived);
+    const usage = await Promise.all(
+      own.slice(0, LANGUAGE_REPOS).map(async (project) => ({
+        languages: await this.projectLanguages(project.id),
+        created_at: project.created_at,
+        pushed_at: project.last_activity_at,
+      })),
+    );
+    return summarizeLanguageUsage(usage, 'shares', {
+      forks: projects.filter((project) => project.forked_from_project !== undefined).length,
+      archived: projects.filter((project) => project.forked_from_project === undefined && project.archived).length,
+      templates: 0,
+    });
+  }
+
+  async fetchPullRequests(username: string): Promise<PullRequestStats> {
+    const projects = await this.recentProjects(username, 10);
+    const sample: PullRequest[] = [];
+    let totalPRs = 0;
+    let mergedPRs = 0;
+
+    for (const project of projects.slice(0, 5)) {
+      try {
+        const mrs = await this.client.get<GitLabMergeRequest[]>(`/projects/${project.id}/merge_requests`, {
+          author_username: username,
+          state: 'all',
+          per_page: 10,
+        });
+        sample.push(...(await Promise.all(mrs.slice(0, 3).map((mr) => this.mergeRequestDetail(project, mr)))));
+        totalPRs += mrs.length;
+        mergedPRs += mrs.filter((mr) => mr.state === 'merged').length;
+      } catch (error) {
+        if (!(error instanceof CodeHostNotFoundError)) throw error;
+      }
+    }
+
+    return summarizePullRequests(sample, totalPRs, mergedPRs);
+  }
+
+  /**
+   * Reads the candidate's commits from the history of their 5 most recently
+   * active projects (forks excluded), up to 200 per project over the commit
+   * window. GitLab matches commit authors by name or email, not username, so
+   * the history is searched for the user's display name.
+   */
+  async fetchCommitAnalysis(username: string): Promise<CommitAnalysis> {
+    const user = await this.client.get<GitLabUser>(`/users/${await this.userId(username)}`);
+    const projects = await this.recentProjects(username, 15);
+    const since = commitWindowStart().toISOString();
+    const histories = await Promise.all(
+      projects
+        .filter((project) => project.forked_from_project === undefined)
+        .slice(0, 5)
+        .map(async (project) => {
+          try {
+            const commits = await this.client.paginate<GitLabCommit>(`/projects/${project.id}/repository/commits`, {
+              params: { author: user.name, since, with_stats: 'true' },
+              maxPages: 2,
+            });
+            return commits.map((commit): Commit => ({
+              sha: commit.id,
+              repo: project.path_with_namespace,
+              // No activity feed to point at, so the commit stands in for its event
+              eventId: commit.id,
+              html_url: commit.web_url,
+              message: commit.message.trim(),
+              date: commit.authored_date,
+              additions: commit.stats?.additions ?? 0,
+              deletions: commit.stats?.deletions ?? 0,
+            }));
+          } catch (error) {
+            if (error instanceof CodeHostNotFoundError) return [];
+            throw error;
+          }
+        }),
+    );
+    return summarizeCommits(histories.flat().sort(byNewestCommit));
+  }
+
+  async fetchStarredRepos(username: string): Promise<StarredRepos> {
+    const userId = await this.userId(username);
+    const starred = await this.client.paginate<GitLabProject>(`/users/${userId}/starred_projects`, {
+      maxPages: 5,
+    });
+    // Languages need a request per project, so only the ones kept as evidence are looked up
+    const recent = await Promise.all(
+      starred.slice(0, 10).map(async (project) => ({
+        name: project.name,
+        language: await this.primaryLanguage(project.id),
+        description: project.description,
+        stargazers_count: project.star_count,
+      })),
+    );
+    return summarizeStarred(recent, starred.length);
+  }
+
+  /**
+   * Merge requests the user opened on projects outside their own namespace,
+   * across the instance. GitLab has no "request changes" verdict, so reviews
+   * are read from approvals, falling back to whether anyone commented.
+   */
+  async fetchExternalContributions(username: string): Promise<ExternalContributions> {
+    const mrs = await this.client.paginate<GitLabMergeRequest>('/merge_requests', {
+      params: { author_username: username, scope: 'all', state: 'all', order_by: 'created_at' },
+      maxPages: 1,
+    });
+    const ownNamespace = `${username.toLowerCase()}/`;
+    const external = mrs
+      .map((mr) => ({ mr, repo: mr.web_url.replace(`${this.webUrl}/`, '').split('/-/')[0] }))
+      .filter(({ repo }) => !repo.toLowerCase().startsWith(ownNamespace));
+
+    const projectIds = new Map(external.map(({ mr, repo }) => [repo, mr.project_id]));
+    const prs: ExternalPullRequest[] = await Promise.all(
+      external.map(async ({ mr, repo }, i) => ({
+        repo,
+        number: mr.iid,
+        html_url: mr.web_url,
+        title: mr.title,
+        state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+        created_at: mr.created_at,
+        merged_at: mr.merged_at,
+        // Newest first, so only the 10 most recent have their reviews looked up
+        maintainerReview: i < 10 ? await this.reviewOutcome(mr) : null,
+      })),
+    );
+
+    const upstream = await Promise.all(
+      topUpstreamRepos(prs, 10).map(async (repo): Promise<UpstreamRepo | null> => {
+        try {
+          const project = await this.client.get<GitLabProject>(`/projects/${projectIds.get(repo)}`);
+          return {
+            full_name: repo,
+            html_url: project.web_url,
+            stargazers_count: project.star_count,
+            language: await this.primaryLanguage(project.id),
+          };
+        } catch (error) {
+          if (error instanceof CodeHostNotFoundError) return null;
+          throw error;
+        }
+      }),
+    );
+    return summarizeExternalContributions(
+      prs,
+      upstream.filter((repo): repo is UpstreamRepo => repo !== null),
+    );
+  }
+
+  /**
+   * Merge requests by others the user was a reviewer on. GitLab has no review
+   * submissions, so each merge request counts as one review made of the
+   * user's notes there, approving or requesting changes if they did.
+   */
+  async fetchReviewActivity(username: string): Promise<ReviewActivity> {
+    const mrs = await this.client.get<GitLabMergeRequest[]>('/merge_requests', {
+      reviewer_username: username,
+      scope: 'all',
+      state: 'all',
+      order_by: 'updated_at',
+      per_page: 20,
+    });
+    const others = mrs.filter((mr) => mr.author.username.toLowerCase() !== username.toLowerCase()).slice(0, 10);
+    const reviews = await Promise.all(others.map((mr) => this.reviewBy(username, mr)));
+    return summarizeReviewActivity(
+      reviews.filter((review): review is ReviewGiven => review !== null),
+      others.length,
+    );
+  }
+
+  async fetchCodeSample(username: string, repos?: Repos): Promise<CodeSample> {
+    const sampled = significantRepos(repos ?? (await this.fetchRepos(username)));
+    return summarizeCodeSample(await Promise.all(sampled.map((repo) => this.repoCodeSample(repo))));
+  }
+
+  private async reviewBy(username: string, mr: GitLabMergeRequest): Promise<ReviewGiven | null> {
+    let notes: GitLabNote[];
+    try {
+      notes = await this.client.paginate<GitLabNote>(`/projects/${mr.project_id}/merge_requests/${mr.iid}/notes`, {
+        params: { sort: 'asc' },
+        maxPages: 3,
+      });
+    } catch (error) {
+      if (error instanceof CodeHostNotFoundError) return null;
+      throw error;
+    }
+    const own = notes.filter((note) => note.author.username.toLowerCase() === username.toLowerCase());
+    if (own.length === 0) return null;
+
+    const approved = own.some((note) => note.system && note.body.startsWith('approved this merge request'));
+    const requested = own.some((note) => note.system && note.body.startsWith('requested changes'));
+    return {
+      repo: mr.web_url.replace(`${this.webUrl}/`, '').split('/-/')[0],
+      number: mr.iid,
+      html_url: mr.web_url,
+      state: requested ? 'changes_requested' : approved ? 'approved' : 'commented',
+      submitted_at: own[own.length - 1].created_at,
+      body: null,
+      comments: own.filter((note) => !note.system).map((note) => note.body),
+    };
+  }
+
+  private async reviewOutcome(mr: GitLabMergeRequest): Promise<ExternalPullRequest['maintainerReview']> {
+    try {
+      const approvals = await this.client.get<GitLabApprovals>(
+        `/projects/${mr.project_id}/merge_requests/${mr.iid}/approvals`,
+      );
+      if (approvals.approved_by.length > 0) return 'approved';
+      return mr.user_notes_count > 0 ? 'commented' : 'unreviewed';
+    } catch (error) {
+      if (error instanceof CodeHostNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  private async userId(username: string): Promise<number> {
+    const known = this.userIds.get(username.toLowerCase());
+    if (known !== undefined) return known;
+
+    const [user] = await this.client.get<GitLabUser[]>('/users', { username });
+    if (!user) {
+      throw new CodeHostNotFoundError('GitLab', `${this.webUrl}/${username}`);
+    }
+    this.userIds.set(username.toLowerCase(), user.id);
+    return user.id;
+  }
+
+  private async recentProjects(username: string, count: number): Promise<GitLabProject[]> {
+    return this.client.get<GitLabProject[]>(`/users/${await this.userId(username)}/projects`, {
+      order_by: 'last_activity_at',
+      sort: 'desc',
+      per_page: count,
+    });
+  }
+
+  /** The language with the largest share of the project, or null when GitLab reports none. */
+  private async primaryLanguage(projectId: number): Promise<string | null> {
+    const [top] = Object.entries(await this.projectLanguages(projectId)).sort((a, b) => b[1] - a[1]);
+    return top?.[0] ?? null;
+  }
+
+  /**
+   * Reads who wrote the latest 100 commits on the default branch, and the
+   * README. GitLab matches commit authors by name, as in `fetchCommitAnalysis`.
+   */
+  private async projectSignals(user: GitLabUser, project: GitLabProject): Promise<RepoSignals> {
+    const [commits, readme] = await Promise.all([
+      this.client.get<GitLabCommit[]>(`/projects/${project.id}/repository/commits`, { per_page: 100 }).catch(
+        (error: unknown) => {
+          // An empty repository has no history
+          if (error instanceof CodeHostNotFoundError) return [];
+          throw error;
+        },
+      ),
+      project.readme_url
+        ? this.client
+            .getText(readmePath(project.id, project.readme_url), { ref: project.default_branch ?? 'HEAD' })
+            .catch((error: unknown) => {
+              // readme_url can outlive the file it points to
+              if (error instanceof CodeHostNotFoundError) return null;
+              throw error;
+            })
+        : null,
+    ]);
+    return {
+      name: project.name,
+      description: project.description,
+      fork: project.forked_from_project !== undefined,
+      commits: commits.length,
+      ownCommits: commits.filter((commit) => commit.author_name.toLowerCase() === user.name.toLowerCase()).length,
+      headSha: commits[0]?.id ?? null,
+      readme,
+    };
+  }
+
+  /** Percentage of the project's code in each language. */
+  private async projectLanguages(projectId: number): Promise<Record<string, number>> {
+    return this.client.get<Record<string, number>>(`/projects/${projectId}/languages`);
+  }
+
+  /**
+   * Sizes merge requests from their diffs and builds the review timeline from
+   * their notes: GitLab records approvals, change requests and pushed commits
+   * as system notes, and discussion as regular ones.
+   */
+  private async mergeRequestDetail(project: GitLabProject, mr: GitLabMergeRequest): Promise<PullRequest> {
+    const path = `/projects/${project.id}/merge_requests/${mr.iid}`;
+    const [diffs, notes, commits] = await Promise.all([
+      this.client.paginate<GitLabDiff>(`${path}/diffs`, { maxPages: 3 }),
+      this.client.paginate<GitLabNote>(`${path}/notes`, { params: { sort: 'asc' }, maxPages: 3 }),
+      this.client.paginate<unknown>(`${path}/commits`, { maxPages: 3 }),
+    ]);
+    const diffLines = diffs.flatMap((diff) => diff.diff.split('\n'));
+    const author = mr.author.username;
+
+    const events = notes.flatMap((note): ReviewEvent[] => {
+      const actor = note.author.username === author ? 'author' : 'reviewer';
+      if (!note.system) return [{ at: note.created_at, actor, action: 'commented' }];
+      if (note.body.startsWith('approved this merge request')) return [{ at: note.created_at, actor, action: 'approved' }];
+      if (note.body.startsWith('requested changes')) return [{ at: note.created_at, actor, action: 'changes_requested' }];
+      if (/^added \d+ commits?/.test(note.body)) return [{ at: note.created_at, actor, action: 'pushed' }];
+      return [];
+    });
+
+    return {
+      repo: project.path_with_namespace,
+      number: mr.iid,
+      html_url: mr.web_url,
+      title: mr.title,
+      body: mr.description,
+      state: mr.state === 'opened' ? 'open' : 'closed',
+      created_at: mr.created_at,
+      merged_at: mr.merged_at,
+      additions: diffLines.filter((line) => line.startsWith('+')).length,
+      deletions: diffLines.filter((line) => line.startsWith('-')).length,
+      changed_files: diffs.length,
+      review_comments: mr.user_notes_count,
+      commits: commits.length,
+      review: summarizeReview(mr, events),
+    };
+  }
+
+  /**
+   * GitLab's tree has no file sizes, so sizes are only known for the files
+   * that are read. A project's path works in place of its id.
+   */
+  private async repoCodeSample(repo: Repos[number]): Promise<RepoCodeSample> {
+    const project = encodeURIComponent(repo.full_name);
+    let tree: GitLabTreeEntry[] = [];
+    try {
+      tree = await this.client.paginate<GitLabTreeEntry>(`/projects/${project}/repository/tree`, {
+        params: { recursive: 'true' },
+        maxPages: MAX_TREE_PAGES,
+      });
+    } catch (error) {
+      // An empty repository has no tree
+      if (!(error instanceof CodeHostNotFoundError)) throw error;
+    }
+
+    const files = tree.flatMap((entry): RepoFile[] => (entry.type === 'blob' ? [{ path: entry.path }] : []));
+    const contents = await readFiles(filesToRead(files), async (path) => {
+      const file = await this.client.get<GitLabFile>(
+        `/projects/${project}/repository/files/${encodeURIComponent(path)}`,
+        { ref: 'HEAD' },
+      );
+      return Buffer.from(file.content, 'base64').toString('utf8');
+    });
+    return summarizeRepoCode(
+      repo,
+      files,
+      contents,
+      (path) => `${repo.html_url}/-/blob/HEAD/${path}`,
+      tree.length >= MAX_TREE_PAGES * 100,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { getCodeHostProvider } from '.';
+
+describe('getCodeHostProvider', () => {
+  beforeEach(() => {
+    process.env.GITLAB_INSTANCES = 'https://gitlab.example.com, https://git.example.org/gitlab';
+  });
+
+  afterEach(() => {
+    delete process.env.GITLAB_INSTANCES;
+  });
+
+  it('reuses one provider per allowed GitLab instance', () => {
+    const provider = getCodeHostProvider({ provider: 'gitlab', baseUrl: 'https://GitLab.example.com/' });
+
+    expect(provider.webUrl).toBe('https://gitlab.example.com');
+    expect(getCodeHostProvider({ provider: 'gitlab', baseUrl: 'https://gitlab.example.com' })).toBe(provider);
+    expect(getCodeHostProvider({ provider: 'gitlab', baseUrl: 'https://git.example.org/gitlab' }).webUrl).toBe(
+      'https://git.example.org/gitlab',
+    );
+    expect(getCodeHostProvider({ provider: 'gitlab' }).webUrl).toBe('https://gitlab.com');
+  });
+
+  it('refuses GitLab instances that are not configured', () => {
+    expect(() => getCodeHostProvider({ provider: 'gitlab', baseUrl: 'https://internal.example.net' })).toThrow(
+      expect.objectContaining({ details: { reason: 'CODE_HOST_NOT_ALLOWED', host: 'GitLab' } }),
+    );
+  });
+});
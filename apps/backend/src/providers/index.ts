@@ -0,0 +1,56 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+
+import { CodeHostProvider, CodeHostSource } from '../code-host';
+import { BitbucketProvider } from './bitbucket';
+import { GitHubProvider } from './github';
+import { GITLAB_URL, GitLabProvider } from './gitlab';
+
+// Providers are reused across requests so each keeps its client's ETag cache
+const providers = new Map<string, CodeHostProvider>();
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * GitLab instances the backend will call: gitlab.com, GITLAB_URL and the
+ * comma-separated web URLs in GITLAB_INSTANCES. Any other base URL is refused,
+ * so callers cannot point the backend at arbitrary hosts.
+ */
+function allowedGitLabUrls(): string[] {
+  const configured = (process.env.GITLAB_INSTANCES ?? '').split(',').map((url) => url.trim());
+  return [GITLAB_URL, process.env.GITLAB_URL ?? GITLAB_URL, ...configured].filter(Boolean).map(trimSlashes);
+}
+
+function gitLabUrl(baseUrl: string | undefined): string {
+  const requested = trimSlashes(baseUrl ?? GITLAB_URL).toLowerCase();
+  const allowed = allowedGitLabUrls().find((url) => url.toLowerCase() === requested);
+  if (!allowed) {
+    throw new HttpsError('invalid-argument', `GitLab instance ${baseUrl} is not enabled on this server.`, {
+      reason: 'CODE_HOST_NOT_ALLOWED',
+      host: 'GitLab',
+    });
+  }
+  return allowed;
+}
+
+/** `baseUrl` selects a self-hosted GitLab instance and is ignored for other hosts. */
+export function getCodeHostProvider({ provider, baseUrl }: CodeHostSource): CodeHostProvider {
+  const webUrl = provider === 'gitlab' ? gitLabUrl(baseUrl) : provider;
+  const key = `${provider}:${webUrl}`;
+
+  let instance = providers.get(key);
+  if (!instance) {
+    switch (provider) {
+      case 'github':
+        instance = new GitHubProvider();
+        break;
+      case 'gitlab':
+        instance = new GitLabProvider(webUrl);
+        break;
+      case 'bitbucket':
+        instance = new BitbucketProvider();
+        break;
+    }
+    providers.set(key, instance);
+  }
+  return instance;
+}
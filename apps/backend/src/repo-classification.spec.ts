@@ -0,0 +1,63 @@
+import { RepoSignals, classifyFrom, classifyRepo, isOriginalWork } from './repo-classification';
+
+const signals = (overrides: Partial<RepoSignals>): RepoSignals => ({
+  name: 'project',
+  description: null,
+  fork: false,
+  commits: 40,
+  ownCommits: 40,
+  headSha: 'abc1234',
+  readme: '# Project',
+  ...overrides,
+});
+
+const kind = (overrides: Partial<RepoSignals>) => classifyRepo('octo-dev', signals(overrides)).kind;
+
+describe('classifyRepo', () => {
+  it.each(['best-practices-linter', 'learn-rs', 'course-scheduler', 'exercise-tracker', 'odin-inspector'])(
+    'keeps %s as original work',
+    (name) => {
+      expect(kind({ name })).toBe('original');
+    },
+  );
+
+  it.each(['udemy-react', 'cs50', 'homework3', 'hw3', 'leetcode-solutions'])('classifies %s as a tutorial', (name) => {
+    expect(kind({ name })).toBe('tutorial');
+  });
+
+  it('classifies a repo described as a course project as a tutorial', () => {
+    expect(kind({ name: 'scheduler', description: 'Course project for CS 3110' })).toBe('tutorial');
+    expect(kind({ name: 'scheduler', description: 'Schedules course registrations' })).toBe('original');
+  });
+});
+
+describe('isOriginalWork', () => {
+  it('counts an unclassified repo as original work unless it is a fork', () => {
+    expect(isOriginalWork({ fork: false })).toBe(true);
+    expect(isOriginalWork({ fork: true })).toBe(false);
+    expect(isOriginalWork({ fork: true, classification: { kind: 'fork_with_changes', reason: 'Fork' } })).toBe(true);
+  });
+});
+
+describe('classifyFrom', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the classification and head commit', async () => {
+    await expect(classifyFrom('octo-dev', 'octo-dev/project', async () => signals({}))).resolves.toEqual({
+      classification: { kind: 'original', reason: 'Original repository' },
+      headSha: 'abc1234',
+    });
+  });
+
+  it('leaves the repo unclassified when its signals cannot be read', async () => {
+    const read = () => Promise.reject(new Error('GitHub API error: 503'));
+
+    await expect(classifyFrom('octo-dev', 'octo-dev/project', read)).resolves.toEqual({});
+  });
+});
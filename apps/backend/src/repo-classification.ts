@@ -0,0 +1,150 @@
+import { z } from 'genkit';
+
+export const REPO_KINDS = [
+  'original',
+  'fork_with_changes',
+  'untouched_fork',
+  'tutorial',
+  'template',
+  'profile',
+] as const;
+
+export type RepoKind = (typeof REPO_KINDS)[number];
+
+// Kinds the assessment judges as the candidate's own work
+export const ORIGINAL_WORK: readonly RepoKind[] = ['original', 'fork_with_changes'];
+
+export const repoClassificationSchema = z.object({
+  kind: z.enum(REPO_KINDS),
+  reason: z.string().describe('Why the repo was classified this way'),
+});
+
+export type RepoClassification = z.infer<typeof repoClassificationSchema>;
+
+/** What providers read about a repository to classify it. */
+export interface RepoSignals {
+  name: string;
+  description: string | null;
+  fork: boolean;
+  /** Commits read from the default branch, the most recent first. */
+  commits: number;
+  /** Of those, the ones authored by the candidate. */
+  ownCommits: number;
+  /** The most recent of them; mirrors of the same repo share it. */
+  headSha: string | null;
+  readme: string | null;
+}
+
+/**
+ * Repos without a classification predate it or could not be classified: they
+ * count as original work unless they are forks.
+ */
+export const isOriginalWork = (repo: { classification?: RepoClassification; fork?: boolean }) =>
+  repo.classification ? ORIGINAL_WORK.includes(repo.classification.kind) : !repo.fork;
+
+/** Why a repo that is not original work was left out. */
+export const exclusionReason = (repo: { classification?: RepoClassification }) =>
+  repo.classification
+    ? `${repo.classification.kind} (${repo.classification.reason})`
+    : 'fork that could not be classified';
+
+// A scaffold with no more commits than this was generated and left as it was
+const TEMPLATE_MAX_COMMITS = 5;
+
+const PROFILE_NAMES = /^\.?(dot-?files|dotfiles-\w+|config|vimrc|nvim|\.?vim|emacs\.d|settings)$/i;
+
+// Only words that name coursework on their own; everyday words such as "learn",
+// "practice", "course" or "exercise" also name original projects (learn-rs,
+// best-practices-linter, course-scheduler, exercise-tracker)
+const TUTORIAL_WORDS = new Set([
+  'tutorial', 'tutorials', 'coursework', 'bootcamp', 'udemy', 'coursera', 'freecodecamp', 'homework', 'kata',
+  'katas', 'leetcode', 'hackerrank', 'codewars', 'adventofcode', 'aoc', 'theodinproject', '100daysofcode',
+]);
+// Words like cs50, hw3, homework3 or week2
+const TUTORIAL_WORD = /^(cs\d{2,3}[a-z]?|(hw|homework|lab|week|day|ex)\d+)$/;
+const TUTORIAL_DESCRIPTION = new RegExp(
+  '\\b(tutorial|bootcamp|udemy|coursera|freecodecamp|homework|coursework|following along|taught by' +
+    '|(course|class|school|university) (project|assignment|exercise))\\b',
+  'i',
+);
+
+// READMEs that project generators write, which nobody has replaced yet
+const SCAFFOLD_READMES: [RegExp, string][] = [
+  [/Getting Started with Create React App|bootstrapped with \[Create React App\]/i, 'Create React App'],
+  [/This project was generated (with|using) \[Angular CLI\]/i, 'Angular CLI'],
+  [/This is a \[Next\.js\]\(.*\) project bootstrapped with/i, 'create-next-app'],
+  [/This template provides a minimal setup to get React working in Vite/i, 'Vite'],
+  [/This template should help get you started developing with Vue 3/i, 'Vue'],
+  [/Everything you need to build a Svelte project/i, 'SvelteKit'],
+  [/This README would normally document whatever steps are necessary/i, 'Rails'],
+  [/A new Flutter project\./i, 'Flutter'],
+  [/This is an \[Expo\]\(.*\) project created with/i, 'Expo'],
+  [/project, bootstrapped using \[`@react-native-community\/cli`\]/i, 'React Native'],
+];
+
+const nameWords = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Classifies a repository from its fork status, how many of its recent
+ * commits are the candidate's, its name and description, and whether its
+ * README is still a project generator's.
+ */
+export function classifyRepo(username: string, signals: RepoSignals): RepoClassification {
+  const name = signals.name.toLowerCase();
+  if (name === username.toLowerCase()) {
+    return { kind: 'profile', reason: 'Profile README repository' };
+  }
+  if (name === `${username.toLowerCase()}.github.io`) {
+    return { kind: 'profile', reason: 'Personal GitHub Pages site' };
+  }
+  if (PROFILE_NAMES.test(name)) {
+    return { kind: 'profile', reason: 'Dotfiles or editor configuration' };
+  }
+
+  if (signals.fork) {
+    return signals.ownCommits > 0
+      ? {
+          kind: 'fork_with_changes',
+          reason: `Fork with ${signals.ownCommits} of its latest ${signals.commits} commits by the candidate`,
+        }
+      : { kind: 'untouched_fork', reason: 'Fork with no commits by the candidate' };
+  }
+
+  const scaffold = SCAFFOLD_READMES.find(([pattern]) => signals.readme && pattern.test(signals.readme));
+  if (scaffold && signals.commits <= TEMPLATE_MAX_COMMITS) {
+    return {
+      kind: 'template',
+      reason: `Unchanged ${scaffold[1]} README and only ${signals.commits} commit${signals.commits === 1 ? '' : 's'}`,
+    };
+  }
+
+  const tutorialWord = nameWords(signals.name).find((word) => TUTORIAL_WORDS.has(word) || TUTORIAL_WORD.test(word));
+  if (tutorialWord) {
+    return { kind: 'tutorial', reason: `Name suggests coursework ("${tutorialWord}")` };
+  }
+  const tutorialPhrase = signals.description?.match(TUTORIAL_DESCRIPTION);
+  if (tutorialPhrase) {
+    return { kind: 'tutorial', reason: `Description mentions "${tutorialPhrase[0]}"` };
+  }
+
+  return { kind: 'original', reason: 'Original repository' };
+}
+
+/**
+ * Reads a repo's signals with `read` and classifies it. Reading them costs
+ * requests of their own, so when they fail the repo is returned unclassified
+ * rather than failing the whole repos step.
+ */
+export async function classifyFrom(
+  username: string,
+  fullName: string,
+  read: () => Promise<RepoSignals>,
+): Promise<{ classification?: RepoClassification; headSha?: string }> {
+  try {
+    const signals = await read();
+    return { classification: classifyRepo(username, signals), headSha: signals.headSha ?? undefined };
+  } catch (error) {
+    console.warn(`Leaving ${fullName} unclassified:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
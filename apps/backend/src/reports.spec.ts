@@ -0,0 +1,25 @@
+import { parseSchema } from 'genkit/schema';
+
+import { assessmentInputSchema } from './reports';
+
+// Genkit validates flow input against the JSON schema generated from the zod schema, not with zod itself
+describe('assessmentInputSchema', () => {
+  const parse = (data: unknown) => parseSchema(data, { schema: assessmentInputSchema });
+
+  it('accepts the input insightRankFlow is called with', () => {
+    expect(parse({ username: 'octo-dev' })).toEqual({ username: 'octo-dev' });
+    expect(
+      parse({
+        username: 'octo-dev',
+        provider: 'gitlab',
+        baseUrl: 'https://gitlab.example.com',
+        linkedAccounts: [{ username: 'octo', provider: 'bitbucket' }],
+        blind: true,
+      }),
+    ).toMatchObject({ baseUrl: 'https://gitlab.example.com', blind: true });
+  });
+
+  it('rejects a self-hosted GitLab reached over plain http', () => {
+    expect(() => parse({ username: 'octo-dev', provider: 'gitlab', baseUrl: 'http://gitlab.example.com' })).toThrow();
+  });
+});
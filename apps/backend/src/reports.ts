@@ -0,0 +1,246 @@
+import { randomBytes } from 'node:crypto';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { ActionContext, z } from 'genkit';
+
+import { insightRankSchema } from './assessment';
+import { CodeHostInput, candidateKey, codeHostInputSchema } from './code-host';
+import { developerEvidenceSchema } from './evidence';
+import { guidelineSchema } from './guidelines';
+import { linkedAccountsSchema } from './linked-accounts';
+import { roleProfileSchema } from './role';
+
+// What the insightRankFlow returns and what is persisted for every completed run
+export const assessmentReportSchema = z.object({
+  assessment: insightRankSchema,
+  evidence: developerEvidenceSchema,
+  guidelines: z.array(guidelineSchema),
+  model: z.string(),
+  generatedAt: z.string(),
+});
+
+export type AssessmentReport = z.infer<typeof assessmentReportSchema>;
+
+// What insightRankFlow is asked to assess
+export const assessmentInputSchema = codeHostInputSchema.extend({
+  role: roleProfileSchema.optional(),
+  linkedAccounts: linkedAccountsSchema.optional(),
+  blind: z.boolean().optional().describe('Hide the name, company, location, bio and avatar from the model'),
+});
+
+// What produced a report, stored alongside it so runs can be compared later
+export const runMetadataSchema = z.object({
+  input: assessmentInputSchema,
+  promptVersion: z.string(),
+});
+
+export type RunMetadata = z.infer<typeof runMetadataSchema>;
+
+export const savedRunSchema = assessmentReportSchema.merge(runMetadataSchema).extend({
+  reportId: z.string(),
+});
+
+export type SavedRun = z.infer<typeof savedRunSchema>;
+
+export const runSummarySchema = z.object({
+  reportId: z.string(),
+  generatedAt: z.string(),
+  model: z.string(),
+  promptVersion: z.string(),
+  overallScore: z.number(),
+  recommendation: z.string(),
+  roleTitle: z.string().optional(),
+});
+
+export const reportHistorySchema = z.object({
+  runs: z.array(runSummarySchema),
+});
+
+export type RunSummary = z.infer<typeof runSummarySchema>;
+
+/**
+ * Stored shape of a report; `candidate` is the `candidateKey` used for history
+ * lookups and `ownerUid` the signed-in user who ran it.
+ */
+interface ReportDocument extends AssessmentReport, RunMetadata {
+  candidate: string;
+  ownerUid: string;
+}
+
+const MAX_HISTORY_RUNS = 50;
+
+export const shareOptionsSchema = z.object({
+  reportId: z.string(),
+  expiresInDays: z.number().int().min(1).max(90).default(14),
+  hideRiskFactors: z.boolean().default(false),
+});
+
+export const shareLinkSchema = z.object({
+  shareId: z.string(),
+  reportId: z.string(),
+  expiresAt: z.string(),
+  hideRiskFactors: z.boolean(),
+});
+
+export type ShareLink = z.infer<typeof shareLinkSchema>;
+
+interface ShareLinkDocument extends ShareLink {
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+const REPORTS = 'reports';
+const SHARE_LINKS = 'shareLinks';
+
+function db() {
+  if (getApps().length === 0) initializeApp();
+  return getFirestore();
+}
+
+/** The caller's uid; saved reports are only ever read or shared by the user who ran them. */
+export function requireUid(context: ActionContext | undefined): string {
+  const uid = context?.auth?.uid;
+  if (typeof uid !== 'string') {
+    throw new HttpsError('unauthenticated', 'Sign in to run and view assessments.', { reason: 'UNAUTHENTICATED' });
+  }
+  return uid;
+}
+
+// Someone else's report answers exactly like a missing one, so report ids cannot be probed
+async function getOwnedReport(reportId: string, ownerUid: string) {
+  const snapshot = await db().collection(REPORTS).doc(reportId).get();
+  if (!snapshot.exists || (snapshot.data() as ReportDocument).ownerUid !== ownerUid) {
+    throw new HttpsError('not-found', 'Report not found.', { reason: 'REPORT_NOT_FOUND' });
+  }
+  return snapshot;
+}
+
+function toAssessmentReport(run: ReportDocument): AssessmentReport {
+  return {
+    assessment: run.assessment,
+    // Profile ids were saved as numbers for GitHub and GitLab before they became strings
+    evidence: { ...run.evidence, profile: { ...run.evidence.profile, id: String(run.evidence.profile.id) } },
+    guidelines: run.guidelines,
+    model: run.model,
+    generatedAt: run.generatedAt,
+  };
+}
+
+/** Persists a completed assessment together with what produced it, and returns its id. */
+export async function saveReport(report: AssessmentReport, run: RunMetadata, ownerUid: string): Promise<string> {
+  const document: ReportDocument = {
+    ...report,
+    ...run,
+    candidate: candidateKey(run.input),
+    ownerUid,
+  };
+  // Firestore rejects undefined values, which optional schema fields produce.
+  const ref = await db().collection(REPORTS).add(JSON.parse(JSON.stringify(document)));
+  return ref.id;
+}
+
+/** Every run the caller saved for a candidate on one code host, newest first. */
+export async function getReportHistory(candidate: CodeHostInput, ownerUid: string): Promise<RunSummary[]> {
+  // Sorted here rather than in the query so no composite index is needed
+  const snapshot = await db()
+    .collection(REPORTS)
+    .where('candidate', '==', candidateKey(candidate))
+    .where('ownerUid', '==', ownerUid)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => {
+      const run = doc.data() as ReportDocument;
+      return {
+        reportId: doc.id,
+        generatedAt: run.generatedAt,
+        model: run.model,
+        promptVersion: run.promptVersion,
+        overallScore: run.assessment.overallScore,
+        recommendation: run.assessment.recommendation,
+        roleTitle: run.input.role?.title,
+      };
+    })
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))
+    .slice(0, MAX_HISTORY_RUNS);
+}
+
+export async function getSavedRun(reportId: string, ownerUid: string): Promise<SavedRun> {
+  const snapshot = await getOwnedReport(reportId, ownerUid);
+  const run = snapshot.data() as ReportDocument;
+  return {
+    ...toAssessmentReport(run),
+    input: run.input,
+    promptVersion: run.promptVersion,
+    reportId: snapshot.id,
+  };
+}
+
+/**
+ * Creates a read-only link to a saved report. Share ids are random and
+ * separate from report ids, so viewers of a shared report never learn the id
+ * needed to create or revoke links.
+ */
+export async function createShareLink(
+  options: z.infer<typeof shareOptionsSchema>,
+  ownerUid: string,
+): Promise<ShareLink> {
+  await getOwnedReport(options.reportId, ownerUid);
+
+  const now = new Date();
+  const link: ShareLinkDocument = {
+    shareId: randomBytes(16).toString('base64url'),
+    reportId: options.reportId,
+    expiresAt: new Date(now.getTime() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    hideRiskFactors: options.hideRiskFactors,
+    createdAt: now.toISOString(),
+    revokedAt: null,
+  };
+  await db().collection(SHARE_LINKS).doc(link.shareId).set(link);
+
+  return {
+    shareId: link.shareId,
+    reportId: link.reportId,
+    expiresAt: link.expiresAt,
+    hideRiskFactors: link.hideRiskFactors,
+  };
+}
+
+/** Revokes a share link to one of the caller's reports. */
+export async function revokeShareLink(reportId: string, shareId: string, ownerUid: string): Promise<void> {
+  await getOwnedReport(reportId, ownerUid);
+  const ref = db().collection(SHARE_LINKS).doc(shareId);
+  const link = (await ref.get()).data() as ShareLinkDocument | undefined;
+  if (!link || link.reportId !== reportId) {
+    throw new HttpsError('not-found', 'Share link not found.', { reason: 'SHARE_NOT_FOUND' });
+  }
+  await ref.update({ revokedAt: new Date().toISOString() });
+}
+
+/** Resolves a share link to its report, applying the link's visibility options. */
+export async function getSharedReport(shareId: string): Promise<AssessmentReport> {
+  const link = (await db().collection(SHARE_LINKS).doc(shareId).get()).data() as ShareLinkDocument | undefined;
+  if (!link) {
+    throw new HttpsError('not-found', 'Share link not found.', { reason: 'SHARE_NOT_FOUND' });
+  }
+  if (link.revokedAt) {
+    throw new HttpsError('permission-denied', 'This share link was revoked.', { reason: 'SHARE_REVOKED' });
+  }
+  if (new Date(link.expiresAt).getTime() <= Date.now()) {
+    throw new HttpsError('permission-denied', 'This share link has expired.', { reason: 'SHARE_EXPIRED' });
+  }
+
+  const snapshot = await db().collection(REPORTS).doc(link.reportId).get();
+  if (!snapshot.exists) {
+    throw new HttpsError('not-found', 'Report not found.', { reason: 'REPORT_NOT_FOUND' });
+  }
+
+  // Risk factors set aside for mentioning personal attributes never leave the recruiter's own view
+  const report = toAssessmentReport(snapshot.data() as ReportDocument);
+  const assessment = { ...report.assessment, flaggedRiskFactors: undefined };
+  return {
+    ...report,
+    assessment: link.hideRiskFactors ? { ...assessment, riskFactors: undefined } : assessment,
+  };
+}
@@ -0,0 +1,78 @@
+import { z } from 'genkit';
+
+// The position a candidate is being assessed for
+export const roleProfileSchema = z.object({
+  title: z.string().optional(),
+  seniority: z.enum(['Intern', 'Junior', 'Mid', 'Senior', 'Staff', 'Principal']).optional(),
+  requiredSkills: z.array(z.string()).optional(),
+  niceToHaveSkills: z.array(z.string()).optional(),
+  jobDescription: z.string().optional(),
+});
+
+export type RoleProfile = z.infer<typeof roleProfileSchema>;
+
+// What the model reports about role fit
+export const modelRoleFitSchema = z.object({
+  score: z.number().min(1).max(10),
+  rationale: z.string(),
+  requiredSkills: z
+    .array(z.string())
+    .describe('Skills the role requires: the ones given, or those extracted from the job description'),
+});
+
+export const roleFitSchema = modelRoleFitSchema.extend({
+  matchedSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  matchedNiceToHaveSkills: z.array(z.string()),
+});
+
+export type RoleFit = z.infer<typeof roleFitSchema>;
+
+const normalizeSkill = (skill: string) => skill.trim().toLowerCase().replace(/[\s.-]+/g, '');
+
+/**
+ * Matches role skills against the assessment's technicalKeywords in code, so
+ * the matched/missing lists only ever contain skills from the role profile.
+ */
+export function matchRoleSkills(
+  roleFit: z.infer<typeof modelRoleFitSchema>,
+  role: RoleProfile,
+  technicalKeywords: string[],
+): RoleFit {
+  const keywords = new Set(technicalKeywords.map(normalizeSkill));
+  const required = role.requiredSkills?.length ? role.requiredSkills : roleFit.requiredSkills;
+  const niceToHave = role.niceToHaveSkills ?? [];
+
+  return {
+    ...roleFit,
+    requiredSkills: required,
+    matchedSkills: required.filter((skill) => keywords.has(normalizeSkill(skill))),
+    missingSkills: required.filter((skill) => !keywords.has(normalizeSkill(skill))),
+    matchedNiceToHaveSkills: niceToHave.filter((skill) => keywords.has(normalizeSkill(skill))),
+  };
+}
+
+export function hasRoleProfile(role: RoleProfile | undefined): role is RoleProfile {
+  return !!role && Object.values(role).some((value) => (Array.isArray(value) ? value.length > 0 : !!value));
+}
+
+/** Prompt section describing the target role, or an empty string when none was given. */
+export function rolePromptSection(role: RoleProfile | undefined): string {
+  if (!hasRoleProfile(role)) return '';
+
+  const lines = [
+    role.title && `Title: ${role.title}`,
+    role.seniority && `Seniority: ${role.seniority}`,
+    role.requiredSkills?.length && `Required skills: ${role.requiredSkills.join(', ')}`,
+    role.niceToHaveSkills?.length && `Nice-to-have skills: ${role.niceToHaveSkills.join(', ')}`,
+    role.jobDescription && `Job description:\n${role.jobDescription}`,
+  ].filter(Boolean);
+
+  return `
+        Target role:
+        ${lines.join('\n        ')}
+
+        **Role Fit:** Score 1-10 how well the evidence shows this developer fits the target role at the stated seniority, with a rationale. List the role's required skills (as given, or extracted from the job description). Use technicalKeywords names that match the role's skill names where the evidence supports them.
+        Tailor the interview questions to probe the gaps between the evidence and this role.
+  `;
+}
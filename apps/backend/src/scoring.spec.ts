@@ -0,0 +1,27 @@
+import { SCORE_DIMENSIONS, Scorecard, computeOverallScore, unscoredDimensions } from './scoring';
+
+const scorecard = (scores: Partial<Record<keyof Scorecard, number>>): Scorecard =>
+  Object.fromEntries(
+    SCORE_DIMENSIONS.map((dimension) => [
+      dimension,
+      { score: scores[dimension] ?? 8, rationale: 'From the evidence', confidence: 'medium' },
+    ]),
+  ) as Scorecard;
+
+describe('computeOverallScore', () => {
+  it('weighs every dimension by default', () => {
+    expect(computeOverallScore(scorecard({ reviewer: 1 }))).toBe(7.4);
+  });
+
+  it('leaves out excluded dimensions and renormalizes the other weights', () => {
+    expect(computeOverallScore(scorecard({ reviewer: 1 }), undefined, ['reviewer'])).toBe(8);
+  });
+});
+
+describe('unscoredDimensions', () => {
+  it('leaves out the reviewer dimension only when the candidate gave no reviews', () => {
+    expect(unscoredDimensions({ totalReviews: 0 })).toEqual(['reviewer']);
+    expect(unscoredDimensions(undefined)).toEqual(['reviewer']);
+    expect(unscoredDimensions({ totalReviews: 3 })).toEqual([]);
+  });
+});
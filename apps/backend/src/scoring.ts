@@ -0,0 +1,94 @@
+import { z } from 'genkit';
+
+export const SCORE_DIMENSIONS = [
+  'codeQuality',
+  'testing',
+  'documentation',
+  'versionControl',
+  'collaboration',
+  'architecture',
+  'security',
+  'consistency',
+  'reviewer',
+] as const;
+
+export type ScoreDimension = (typeof SCORE_DIMENSIONS)[number];
+
+/** Display label and the developmentGuidelines categories each dimension is judged against. */
+export const scoreDimensions: Record<ScoreDimension, { label: string; guidelineIds: string[] }> = {
+  codeQuality: { label: 'Code Quality', guidelineIds: ['code-quality', 'maintainability'] },
+  testing: { label: 'Testing', guidelineIds: ['testing'] },
+  documentation: { label: 'Documentation', guidelineIds: ['documentation'] },
+  versionControl: { label: 'Version Control', guidelineIds: ['version-control'] },
+  collaboration: { label: 'Collaboration', guidelineIds: ['collaboration', 'code-review'] },
+  architecture: { label: 'Architecture', guidelineIds: ['architecture', 'performance'] },
+  security: { label: 'Security', guidelineIds: ['security'] },
+  consistency: { label: 'Consistency', guidelineIds: ['maintainability', 'version-control'] },
+  reviewer: { label: 'Reviewer', guidelineIds: ['code-review', 'collaboration'] },
+};
+
+/**
+ * Relative weight of each dimension in the overall score. Weights are
+ * normalised, so they only need to be correct relative to each other.
+ */
+export const DEFAULT_SCORE_WEIGHTS: Record<ScoreDimension, number> = {
+  codeQuality: 0.2,
+  testing: 0.15,
+  documentation: 0.1,
+  versionControl: 0.1,
+  collaboration: 0.15,
+  architecture: 0.15,
+  security: 0.05,
+  consistency: 0.1,
+  reviewer: 0.1,
+};
+
+export const dimensionScoreSchema = z.object({
+  score: z.number().min(1).max(10),
+  rationale: z.string(),
+  confidence: z.enum(['low', 'medium', 'high']),
+});
+
+export const scorecardSchema = z.object({
+  codeQuality: dimensionScoreSchema,
+  testing: dimensionScoreSchema,
+  documentation: dimensionScoreSchema,
+  versionControl: dimensionScoreSchema,
+  collaboration: dimensionScoreSchema,
+  architecture: dimensionScoreSchema,
+  security: dimensionScoreSchema,
+  consistency: dimensionScoreSchema,
+  reviewer: dimensionScoreSchema.describe('Quality of the reviews the candidate gives on other people\'s pull requests'),
+});
+
+export type Scorecard = z.infer<typeof scorecardSchema>;
+
+// Runs saved before the reviewer dimension was added have no score for it
+export const savedScorecardSchema = scorecardSchema.partial({ reviewer: true });
+
+/**
+ * Dimensions with nothing in the evidence to judge them on, left out of the
+ * overall score: the reviewer dimension when the candidate gave no reviews.
+ */
+export function unscoredDimensions(reviewActivity: { totalReviews: number } | undefined): ScoreDimension[] {
+  return reviewActivity && reviewActivity.totalReviews > 0 ? [] : ['reviewer'];
+}
+
+/**
+ * Weighted average of the dimension scores, rounded to one decimal place.
+ * `excluded` dimensions carry no weight, so the others share theirs.
+ */
+export function computeOverallScore(
+  scorecard: Scorecard,
+  weights: Record<ScoreDimension, number> = DEFAULT_SCORE_WEIGHTS,
+  excluded: readonly ScoreDimension[] = [],
+): number {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const dimension of SCORE_DIMENSIONS) {
+    if (excluded.includes(dimension)) continue;
+    weighted += scorecard[dimension].score * weights[dimension];
+    totalWeight += weights[dimension];
+  }
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 10) / 10 : 0;
+}
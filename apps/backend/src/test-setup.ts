@@ -0,0 +1,8 @@
+import * as path from 'path';
+
+// Tests never call Gemini or a code host: the model answers from canned output
+// and code host requests are replayed from the recorded cassette
+process.env.MOCK_MODEL = '1';
+process.env.MOCK_MODEL_DIR = path.join(__dirname, '..', 'fixtures', 'model');
+process.env.CODE_HOST_FIXTURES = 'replay';
+process.env.CODE_HOST_CASSETTE = path.join(__dirname, '..', 'fixtures', 'code-host.json');
@@ -0,0 +1,324 @@
+import { Component, ElementRef, inject, signal, viewChild } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { injectMutation } from '@tanstack/angular-query-experimental';
+import { CodeHostSelect } from './code-host-select';
+import { InsightRankApi, describeAnalysisError, isCancelledError } from './insight-rank-api';
+import {
+  CandidateRef,
+  CodeHost,
+  CodeHostSource,
+  DeveloperEvidence,
+  InsightRankRequest,
+  InsightRankResponse,
+  InsightRankResult,
+  PROGRESS_STEP_LABELS,
+  ProgressEvent,
+  ProgressStep,
+  RoleProfile,
+  SCORE_DIMENSION_LABELS,
+  ScoreDimension,
+  Seniority,
+  ShareLink,
+  codeHostSource,
+  evidenceSource,
+  scoreColor,
+} from './insight-rank';
+import { ReportFormat, exportReport } from './report-export';
+import { ReportView } from './report-view';
+import { RoleTemplates } from './role-templates';
+
+interface RoleForm {
+  title: string;
+  seniority: Seniority | '';
+  requiredSkills: string;
+  niceToHaveSkills: string;
+  jobDescription: string;
+}
+
+const emptyRoleForm = (): RoleForm => ({
+  title: '',
+  seniority: '',
+  requiredSkills: '',
+  niceToHaveSkills: '',
+  jobDescription: '',
+});
+
+interface LinkedAccountForm {
+  provider: CodeHost;
+  baseUrl: string;
+  username: string;
+}
+
+// Matches MAX_LINKED_ACCOUNTS in the backend
+const MAX_LINKED_ACCOUNTS = 4;
+
+type CreatedShareLink = ShareLink & { revoked: boolean };
+
+interface StepProgress {
+  step: ProgressStep;
+  label: string;
+  status: 'pending' | 'running' | 'done';
+  message: string;
+}
+
+const initialProgress = (): StepProgress[] =>
+  (Object.keys(PROGRESS_STEP_LABELS) as ProgressStep[]).map((step) => ({
+    step,
+    label: PROGRESS_STEP_LABELS[step],
+    status: 'pending',
+    message: '',
+  }));
+
+const splitSkills = (skills: string) =>
+  skills
+    .split(',')
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+
+@Component({
+  selector: 'app-analyze',
+  standalone: true,
+  imports: [FormsModule, RouterLink, CodeHostSelect, ReportView],
+  templateUrl: './analyze.html',
+})
+export class Analyze {
+  api = inject(InsightRankApi);
+  roleTemplates = inject(RoleTemplates);
+  username = '';
+  provider: CodeHost = 'github';
+  baseUrl = '';
+  linkedAccounts: LinkedAccountForm[] = [];
+  readonly maxLinkedAccounts = MAX_LINKED_ACCOUNTS;
+  blind = false;
+  showRoleForm = false;
+  role: RoleForm = emptyRoleForm();
+  selectedTemplate = '';
+  templateName = '';
+  readonly seniorities: Seniority[] = ['Intern', 'Junior', 'Mid', 'Senior', 'Staff', 'Principal'];
+  report: InsightRankResponse | null = null;
+  errorMessage = '';
+  exportError = '';
+  isAnalyzing = signal(false);
+  wasCancelled = signal(false);
+  progress = signal<StepProgress[]>(initialProgress());
+  partialResult = signal<Partial<InsightRankResult> | null>(null);
+  private abortController: AbortController | null = null;
+  exportingFormat = signal<ReportFormat | null>(null);
+  reportCard = viewChild('reportCard', { read: ElementRef });
+  readonly exportFormats: { format: ReportFormat; label: string }[] = [
+    { format: 'pdf', label: 'PDF' },
+    { format: 'png', label: 'PNG' },
+    { format: 'markdown', label: 'Markdown' },
+    { format: 'json', label: 'JSON' },
+  ];
+  showSharePanel = false;
+  readonly shareExpiryOptions = [1, 7, 14, 30, 90];
+  shareExpiresInDays = 14;
+  shareHideRiskFactors = false;
+  shareError = '';
+  isSharing = signal(false);
+  shareLinks = signal<CreatedShareLink[]>([]);
+
+  analysisMutation = injectMutation(() => ({
+    mutationFn: (request: InsightRankRequest) => {
+      this.abortController = new AbortController();
+      return this.api.assessWithProgress(
+        request,
+        (event) => this.onProgress(event),
+        this.abortController.signal,
+      );
+    },
+    onSuccess: (data: InsightRankResponse) => {
+      this.report = data;
+      this.errorMessage = '';
+      this.isAnalyzing.set(false);
+    },
+    onError: (error: Error) => {
+      this.isAnalyzing.set(false);
+      if (isCancelledError(error)) {
+        this.wasCancelled.set(true);
+        return;
+      }
+      console.error('Analysis failed:', error);
+      this.errorMessage = describeAnalysisError(error);
+    },
+  }));
+
+  analyzeDeveloper(): void {
+    if (!this.username.trim()) return;
+    
+    this.isAnalyzing.set(true);
+    this.wasCancelled.set(false);
+    this.progress.set(initialProgress());
+    this.partialResult.set(null);
+    this.report = null;
+    this.errorMessage = '';
+    this.showSharePanel = false;
+    this.shareLinks.set([]);
+    
+    this.analysisMutation.mutate({
+      username: this.username.trim(),
+      ...codeHostSource(this.provider, this.baseUrl),
+      role: this.buildRole(),
+      linkedAccounts: this.buildLinkedAccounts(),
+      blind: this.blind || undefined,
+    });
+  }
+
+  addLinkedAccount(): void {
+    if (this.linkedAccounts.length >= MAX_LINKED_ACCOUNTS) return;
+    this.linkedAccounts = [...this.linkedAccounts, { provider: 'github', baseUrl: '', username: '' }];
+  }
+
+  removeLinkedAccount(index: number): void {
+    this.linkedAccounts = this.linkedAccounts.filter((_, i) => i !== index);
+  }
+
+  buildLinkedAccounts(): CandidateRef[] | undefined {
+    const accounts = this.linkedAccounts
+      .filter((account) => account.username.trim())
+      .map((account) => ({ username: account.username.trim(), ...codeHostSource(account.provider, account.baseUrl) }));
+    return accounts.length > 0 ? accounts : undefined;
+  }
+
+  cancelAnalysis(): void {
+    this.abortController?.abort();
+  }
+
+  onProgress(event: ProgressEvent): void {
+    if (event.type === 'partial') {
+      this.partialResult.set(event.assessment);
+      return;
+    }
+    this.progress.update((steps) =>
+      steps.map((step) =>
+        step.step === event.step
+          ? { ...step, status: event.status === 'completed' ? 'done' : 'running', message: event.message }
+          : step,
+      ),
+    );
+  }
+
+  partialScores(partial: Partial<InsightRankResult>): { label: string; score: number }[] {
+    return (Object.keys(SCORE_DIMENSION_LABELS) as ScoreDimension[]).flatMap((dimension) => {
+      const score = partial.scorecard?.[dimension]?.score;
+      return typeof score === 'number' ? [{ label: SCORE_DIMENSION_LABELS[dimension], score }] : [];
+    });
+  }
+
+  historyQuery(evidence: DeveloperEvidence): CodeHostSource {
+    return evidenceSource(evidence);
+  }
+
+  getScoreColor(score: number): string {
+    return scoreColor(score);
+  }
+
+  buildRole(): RoleProfile | undefined {
+    if (!this.showRoleForm) return undefined;
+    const role: RoleProfile = {
+      title: this.role.title.trim() || undefined,
+      seniority: this.role.seniority || undefined,
+      requiredSkills: splitSkills(this.role.requiredSkills),
+      niceToHaveSkills: splitSkills(this.role.niceToHaveSkills),
+      jobDescription: this.role.jobDescription.trim() || undefined,
+    };
+    const hasRole = role.title || role.seniority || role.jobDescription || role.requiredSkills?.length;
+    return hasRole ? role : undefined;
+  }
+
+  applyTemplate(name: string): void {
+    const template = this.roleTemplates.templates().find((t) => t.name === name);
+    if (!template) {
+      this.role = emptyRoleForm();
+      return;
+    }
+    this.templateName = template.name;
+    this.role = {
+      title: template.role.title ?? '',
+      seniority: template.role.seniority ?? '',
+      requiredSkills: (template.role.requiredSkills ?? []).join(', '),
+      niceToHaveSkills: (template.role.niceToHaveSkills ?? []).join(', '),
+      jobDescription: template.role.jobDescription ?? '',
+    };
+  }
+
+  saveTemplate(): void {
+    const role = this.buildRole();
+    const name = this.templateName.trim() || this.role.title.trim();
+    if (!role || !name) return;
+    this.roleTemplates.save({ name, role });
+    this.selectedTemplate = name;
+  }
+
+  deleteTemplate(): void {
+    if (!this.selectedTemplate) return;
+    this.roleTemplates.remove(this.selectedTemplate);
+    this.selectedTemplate = '';
+    this.templateName = '';
+    this.role = emptyRoleForm();
+  }
+
+  async downloadReport(format: ReportFormat): Promise<void> {
+    if (!this.report || this.exportingFormat()) return;
+    this.exportingFormat.set(format);
+    this.exportError = '';
+    try {
+      await exportReport(this.report, format, this.reportCard()?.nativeElement);
+    } catch (error) {
+      console.error('Export failed:', error);
+      this.exportError = `Could not export the report as ${format.toUpperCase()}.`;
+    } finally {
+      this.exportingFormat.set(null);
+    }
+  }
+
+  shareReport(): void {
+    this.showSharePanel = !this.showSharePanel;
+  }
+
+  async createShareLink(reportId: string): Promise<void> {
+    this.isSharing.set(true);
+    this.shareError = '';
+    try {
+      const link = await this.api.createShareLink({
+        reportId,
+        expiresInDays: this.shareExpiresInDays,
+        hideRiskFactors: this.shareHideRiskFactors,
+      });
+      this.shareLinks.update((links) => [{ ...link, revoked: false }, ...links]);
+      await this.copyShareLink(link);
+    } catch (error) {
+      console.error('Creating share link failed:', error);
+      this.shareError = 'Could not create a share link. Please try again.';
+    } finally {
+      this.isSharing.set(false);
+    }
+  }
+
+  async revokeShareLink(link: CreatedShareLink): Promise<void> {
+    this.shareError = '';
+    try {
+      await this.api.revokeShareLink(link.reportId, link.shareId);
+      this.shareLinks.update((links) =>
+        links.map((existing) => (existing.shareId === link.shareId ? { ...existing, revoked: true } : existing)),
+      );
+    } catch (error) {
+      console.error('Revoking share link failed:', error);
+      this.shareError = 'Could not revoke the share link. Please try again.';
+    }
+  }
+
+  shareUrl(link: ShareLink): string {
+    return `${window.location.origin}/report/${link.shareId}`;
+  }
+
+  async copyShareLink(link: ShareLink): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(this.shareUrl(link));
+    } catch {
+      // Clipboard access can be denied; the link stays visible for manual copying.
+    }
+  }
+}
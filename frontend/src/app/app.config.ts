@@ -8,6 +8,7 @@ import { provideHttpClient } from '@angular/common/http';
 import { provideQueryClient } from '@tanstack/angular-query-experimental';
 import { QueryClient } from '@tanstack/angular-query-experimental';
 import { initializeApp, provideFirebaseApp } from '@angular/fire/app';
+import { connectAuthEmulator, getAuth, provideAuth } from '@angular/fire/auth';
 import { getFunctions, provideFunctions, connectFunctionsEmulator } from '@angular/fire/functions';
 import { appRoutes } from './app.routes';
 
@@ -22,6 +23,9 @@ const firebaseConfig = {
 
 const queryClient = new QueryClient({});
 
+const isLocalhost = () =>
+  typeof window !== 'undefined' && (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
+
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
@@ -30,11 +34,17 @@ export const appConfig: ApplicationConfig = {
     provideHttpClient(),
     provideQueryClient(queryClient),
     provideFirebaseApp(() => initializeApp(firebaseConfig)),
+    provideAuth(() => {
+      const auth = getAuth();
+      if (isLocalhost()) {
+        connectAuthEmulator(auth, 'http://localhost:9099', { disableWarnings: true });
+      }
+      return auth;
+    }),
     provideFunctions(() => {
       const functions = getFunctions(undefined, 'us-central1');
       // Connect to local emulator in development
-      if (typeof window !== 'undefined' && 
-          (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1')) {
+      if (isLocalhost()) {
         connectFunctionsEmulator(functions, 'localhost', 5001);
       }
       return functions;
@@ -1,3 +1,16 @@
 import { Route } from '@angular/router';
+import { Analyze } from './analyze';
+import { Batch } from './batch';
+import { Compare } from './compare';
+import { History } from './history';
+import { SharedReport } from './shared-report';
 
-export const appRoutes: Route[] = [];
+export const appRoutes: Route[] = [
+  { path: '', component: Analyze },
+  { path: 'batch', component: Batch },
+  { path: 'compare', component: Compare },
+  { path: 'history', component: History },
+  { path: 'history/:username', component: History },
+  { path: 'report/:id', component: SharedReport },
+  { path: '**', redirectTo: '' },
+];
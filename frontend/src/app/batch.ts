@@ -0,0 +1,241 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CodeHostSelect } from './code-host-select';
+import { downloadFile, parseUsernames, toCsv } from './csv';
+import { InsightRankApi, describeAnalysisError, rateLimitResetAt } from './insight-rank-api';
+import {
+  CodeHost,
+  CodeHostSource,
+  InsightRankResponse,
+  Recommendation,
+  codeHostSource,
+  profileUrl,
+  recommendationColor,
+  scoreColor,
+} from './insight-rank';
+import { RoleTemplates } from './role-templates';
+
+export type BatchStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchCandidate {
+  username: string;
+  status: BatchStatus;
+  response?: InsightRankResponse;
+  error?: string;
+}
+
+type SortKey = 'username' | 'overallScore' | 'recommendation' | 'roleFit';
+
+/** Parallel analyses; kept low because every run makes dozens of code host calls. */
+const BATCH_CONCURRENCY = 3;
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+const RECOMMENDATION_RANK: Record<Recommendation, number> = {
+  'Strong Hire': 4,
+  Hire: 3,
+  Consider: 2,
+  Pass: 1,
+  'Insufficient Evidence': 0,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+@Component({
+  selector: 'app-batch',
+  standalone: true,
+  imports: [FormsModule, CodeHostSelect],
+  templateUrl: './batch.html',
+})
+export class Batch {
+  api = inject(InsightRankApi);
+  roleTemplates = inject(RoleTemplates);
+
+  usernameInput = '';
+  provider: CodeHost = 'github';
+  baseUrl = '';
+  selectedTemplate = '';
+  blind = false;
+  readonly recommendations: Recommendation[] = ['Strong Hire', 'Hire', 'Consider', 'Pass', 'Insufficient Evidence'];
+
+  candidates = signal<BatchCandidate[]>([]);
+  isRunning = signal(false);
+  pausedUntil = signal<Date | null>(null);
+
+  sortKey = signal<SortKey>('overallScore');
+  sortDescending = signal(true);
+  recommendationFilter = signal<Recommendation | ''>('');
+  minScore = signal(0);
+  search = signal('');
+
+  private cancelled = false;
+  /** Fixed when a batch starts so changing the picker mid-run does not mix hosts. */
+  private source: CodeHostSource = { provider: 'github' };
+
+  completedCount = computed(
+    () => this.candidates().filter((c) => c.status === 'done' || c.status === 'failed').length,
+  );
+
+  rows = computed(() => {
+    const key = this.sortKey();
+    const direction = this.sortDescending() ? -1 : 1;
+    const recommendation = this.recommendationFilter();
+    const minScore = this.minScore();
+    const search = this.search().trim().toLowerCase();
+
+    return this.candidates()
+      .filter((candidate) => {
+        const assessment = candidate.response?.assessment;
+        if (search && !candidate.username.toLowerCase().includes(search)) return false;
+        if (recommendation && assessment?.recommendation !== recommendation) return false;
+        if (minScore > 0 && (assessment?.overallScore ?? 0) < minScore) return false;
+        return true;
+      })
+      .sort((a, b) => direction * compareCandidates(a, b, key));
+  });
+
+  async loadFile(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    const usernames = parseUsernames(await file.text());
+    this.usernameInput = usernames.join('\n');
+  }
+
+  async start(): Promise<void> {
+    const usernames = parseUsernames(this.usernameInput);
+    if (usernames.length === 0 || this.isRunning()) return;
+
+    this.cancelled = false;
+    this.source = codeHostSource(this.provider, this.baseUrl);
+    this.isRunning.set(true);
+    this.candidates.set(usernames.map((username) => ({ username, status: 'queued' })));
+
+    const queue = [...usernames];
+    const worker = async () => {
+      for (let username = queue.shift(); username; username = queue.shift()) {
+        if (this.cancelled) {
+          this.update(username, { status: 'cancelled' });
+          continue;
+        }
+        await this.analyze(username);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, usernames.length) }, worker));
+    this.isRunning.set(false);
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  toggleSort(key: SortKey): void {
+    if (this.sortKey() === key) {
+      this.sortDescending.update((descending) => !descending);
+    } else {
+      this.sortKey.set(key);
+      this.sortDescending.set(key !== 'username');
+    }
+  }
+
+  exportCsv(): void {
+    const headers = [
+      'username',
+      'status',
+      'overallScore',
+      'recommendation',
+      'confidence',
+      'roleFitScore',
+      'technicalKeywords',
+      'missingSkills',
+      'error',
+    ];
+    const rows = this.rows().map(({ username, status, response, error }) => [
+      username,
+      status,
+      response?.assessment.overallScore,
+      response?.assessment.recommendation,
+      response?.assessment.coverage?.confidence,
+      response?.assessment.roleFit?.score,
+      response?.assessment.technicalKeywords.join('; '),
+      response?.assessment.roleFit?.missingSkills.join('; '),
+      error,
+    ]);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`insightrank-batch-${date}.csv`, toCsv(headers, rows), 'text/csv');
+  }
+
+  getScoreColor(score: number): string {
+    return scoreColor(score);
+  }
+
+  getRecommendationColor(recommendation: string): string {
+    return recommendationColor(recommendation);
+  }
+
+  profileLink(candidate: BatchCandidate): string {
+    return candidate.response?.evidence.profile.html_url ?? profileUrl(this.source, candidate.username);
+  }
+
+  private async analyze(username: string): Promise<void> {
+    const role = this.roleTemplates.templates().find((t) => t.name === this.selectedTemplate)?.role;
+
+    for (let attempt = 0; attempt <= MAX_RATE_LIMIT_RETRIES; attempt++) {
+      await this.waitForRateLimit(username);
+      if (this.cancelled) {
+        this.update(username, { status: 'cancelled' });
+        return;
+      }
+      this.update(username, { status: 'running' });
+      try {
+        const response = await this.api.assess({ username, ...this.source, role, blind: this.blind || undefined });
+        this.update(username, { status: 'done', response });
+        return;
+      } catch (error) {
+        const resetAt = rateLimitResetAt(error);
+        if (resetAt && attempt < MAX_RATE_LIMIT_RETRIES) {
+          // Pause every worker, not just this one: the limit is shared.
+          this.pausedUntil.set(resetAt);
+          continue;
+        }
+        this.update(username, { status: 'failed', error: describeAnalysisError(error) });
+        return;
+      }
+    }
+  }
+
+  private async waitForRateLimit(username: string): Promise<void> {
+    let until = this.pausedUntil();
+    while (until && until.getTime() > Date.now() && !this.cancelled) {
+      this.update(username, { status: 'waiting' });
+      await sleep(Math.min(until.getTime() - Date.now(), 5000));
+      until = this.pausedUntil();
+    }
+    this.pausedUntil.set(null);
+  }
+
+  private update(username: string, patch: Partial<BatchCandidate>): void {
+    this.candidates.update((candidates) =>
+      candidates.map((candidate) =>
+        candidate.username === username ? { ...candidate, ...patch } : candidate,
+      ),
+    );
+  }
+}
+
+function compareCandidates(a: BatchCandidate, b: BatchCandidate, key: SortKey): number {
+  const assessmentA = a.response?.assessment;
+  const assessmentB = b.response?.assessment;
+  switch (key) {
+    case 'username':
+      return a.username.localeCompare(b.username);
+    case 'overallScore':
+      return (assessmentA?.overallScore ?? -1) - (assessmentB?.overallScore ?? -1);
+    case 'recommendation':
+      return (
+        (assessmentA ? RECOMMENDATION_RANK[assessmentA.recommendation] : 0) -
+        (assessmentB ? RECOMMENDATION_RANK[assessmentB.recommendation] : 0)
+      );
+    case 'roleFit':
+      return (assessmentA?.roleFit?.score ?? -1) - (assessmentB?.roleFit?.score ?? -1);
+  }
+}
@@ -0,0 +1,29 @@
+import { Component, input } from '@angular/core';
+import { Citation, citationLabel } from './insight-rank';
+
+@Component({
+  selector: 'app-citation-links',
+  template: `
+    @if (citations().length > 0) {
+      <div class="flex flex-wrap gap-1 mt-1">
+        @for (citation of citations(); track $index) {
+          <a
+            [href]="citation.url"
+            target="_blank"
+            rel="noopener noreferrer"
+            class="text-xs bg-slate-900/60 text-blue-300 hover:text-blue-200 px-2 py-0.5 rounded underline"
+          >
+            {{ label(citation) }}
+          </a>
+        }
+      </div>
+    }
+  `,
+})
+export class CitationLinks {
+  citations = input.required<Citation[]>();
+
+  label(citation: Citation): string {
+    return citationLabel(citation);
+  }
+}
@@ -0,0 +1,41 @@
+import { Component, input, model } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CODE_HOST_LABELS, CodeHost } from './insight-rank';
+
+/** Picks the code host candidates are looked up on, plus an optional self-hosted GitLab URL. */
+@Component({
+  selector: 'app-code-host-select',
+  standalone: true,
+  imports: [FormsModule],
+  host: { class: 'flex flex-col sm:flex-row gap-2' },
+  template: `
+    <select
+      class="px-4 py-3 rounded-lg bg-slate-700 text-white border border-slate-600"
+      aria-label="Code host"
+      [ngModel]="provider()"
+      (ngModelChange)="provider.set($event)"
+      [disabled]="disabled()"
+    >
+      @for (host of hosts; track host.id) {
+        <option [value]="host.id">{{ host.label }}</option>
+      }
+    </select>
+    @if (provider() === 'gitlab') {
+      <input
+        type="url"
+        placeholder="Self-hosted GitLab URL (optional)"
+        class="flex-1 px-4 py-3 rounded-lg bg-slate-700 text-white placeholder-slate-400 border border-slate-600"
+        [ngModel]="baseUrl()"
+        (ngModelChange)="baseUrl.set($event)"
+        [disabled]="disabled()"
+      />
+    }
+  `,
+})
+export class CodeHostSelect {
+  provider = model<CodeHost>('github');
+  baseUrl = model('');
+  disabled = input(false);
+
+  readonly hosts = (Object.keys(CODE_HOST_LABELS) as CodeHost[]).map((id) => ({ id, label: CODE_HOST_LABELS[id] }));
+}
@@ -0,0 +1,254 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CitationLinks } from './citation-links';
+import { CodeHostSelect } from './code-host-select';
+import { InsightRankApi, describeAnalysisError } from './insight-rank-api';
+import {
+  AssessmentReport,
+  CandidateComparison,
+  CandidateRef,
+  CodeHost,
+  SCORE_DIMENSION_LABELS,
+  ScoreDimension,
+  codeHostSource,
+  formatHours,
+  isOriginalWork,
+  recommendationColor,
+  scoreColor,
+} from './insight-rank';
+
+export interface CompareColumn {
+  username: string;
+  status: 'loading' | 'done' | 'failed';
+  source?: 'saved' | 'new';
+  report?: AssessmentReport & { reportId: string | null };
+  error?: string;
+}
+
+interface CompareRow {
+  label: string;
+  values: string[];
+  scores?: (number | undefined)[];
+}
+
+const MIN_CANDIDATES = 2;
+const MAX_CANDIDATES = 4;
+
+const normalizeKeyword = (keyword: string) => keyword.trim().toLowerCase();
+
+/** Finalists side by side (`/compare`), with an optional comparative summary. */
+@Component({
+  selector: 'app-compare',
+  standalone: true,
+  imports: [FormsModule, CitationLinks, CodeHostSelect],
+  templateUrl: './compare.html',
+})
+export class Compare {
+  private api = inject(InsightRankApi);
+
+  usernames: string[] = ['', ''];
+  provider: CodeHost = 'github';
+  baseUrl = '';
+  preferSaved = true;
+  readonly maxCandidates = MAX_CANDIDATES;
+
+  columns = signal<CompareColumn[]>([]);
+  isComparing = signal(false);
+  comparison = signal<CandidateComparison | null>(null);
+  isSummarizing = signal(false);
+  summaryError = signal('');
+
+  private reports = computed(() =>
+    this.columns().flatMap((column) => (column.report ? [column.report] : [])),
+  );
+
+  canCompare = computed(() => !this.isComparing() && this.reports().length === this.columns().length);
+
+  canSummarize = computed(
+    () => this.canCompare() && this.reports().length >= MIN_CANDIDATES && this.reports().every((r) => r.reportId),
+  );
+
+  scoreRows = computed<CompareRow[]>(() => {
+    const reports = this.reports();
+    if (reports.length !== this.columns().length) return [];
+    return [
+      {
+        label: 'Overall Score',
+        values: reports.map((r) => `${r.assessment.overallScore}/10`),
+        scores: reports.map((r) => r.assessment.overallScore),
+      },
+      {
+        label: 'Recommendation',
+        values: reports.map((r) => r.assessment.recommendation),
+      },
+      {
+        label: 'Confidence',
+        values: reports.map((r) => r.assessment.coverage?.confidence ?? 'n/a'),
+      },
+      ...(Object.keys(SCORE_DIMENSION_LABELS) as ScoreDimension[]).map((dimension) => ({
+        label: SCORE_DIMENSION_LABELS[dimension],
+        values: reports.map((r) => String(r.assessment.scorecard[dimension]?.score ?? 'n/a')),
+        scores: reports.map((r) => r.assessment.scorecard[dimension]?.score),
+      })),
+    ];
+  });
+
+  languageRows = computed<CompareRow[]>(() => {
+    const reports = this.reports();
+    if (reports.length !== this.columns().length) return [];
+    const languages = [
+      ...new Set(reports.flatMap((r) => r.evidence.languageStats.topLanguages.map((language) => language.name))),
+    ];
+    return languages.map((name) => ({
+      label: name,
+      values: reports.map((r) => {
+        const language = r.evidence.languageStats.topLanguages.find((l) => l.name === name);
+        return language ? `${language.percentage}%` : '—';
+      }),
+    }));
+  });
+
+  activityRows = computed<CompareRow[]>(() => {
+    const reports = this.reports();
+    if (reports.length !== this.columns().length) return [];
+    return [
+      {
+        label: 'Original repos',
+        values: reports.map((r) => `${r.evidence.repos.filter(isOriginalWork).length}/${r.evidence.repos.length}`),
+      },
+      { label: 'Pull requests', values: reports.map((r) => String(r.evidence.pullRequests.totalPRs)) },
+      { label: 'PR merge rate', values: reports.map((r) => `${r.evidence.pullRequests.mergeRate}%`) },
+      { label: 'Average PR size', values: reports.map((r) => `${r.evidence.pullRequests.averagePRSize} lines`) },
+      {
+        label: 'Median time to merge',
+        values: reports.map((r) => formatHours(r.evidence.pullRequests.medianHoursToMerge)),
+      },
+      {
+        label: 'External PRs',
+        values: reports.map((r) =>
+          r.evidence.externalContributions
+            ? `${r.evidence.externalContributions.totalPRs} (${r.evidence.externalContributions.mergeRate}% merged)`
+            : 'n/a',
+        ),
+      },
+      { label: 'Commit frequency', values: reports.map((r) => r.evidence.commitAnalysis.commitFrequency) },
+      {
+        label: 'Commits per week',
+        values: reports.map((r) => String(r.evidence.commitAnalysis.averageCommitsPerWeek)),
+      },
+      {
+        label: 'Conventional commits',
+        values: reports.map((r) =>
+          r.evidence.commitAnalysis.messageStats ? `${r.evidence.commitAnalysis.messageStats.conventional}%` : 'n/a',
+        ),
+      },
+      {
+        label: 'Sampled repos with tests',
+        values: reports.map((r) =>
+          r.evidence.codeSample ? `${r.evidence.codeSample.withTests}/${r.evidence.codeSample.sampledRepos}` : 'n/a',
+        ),
+      },
+    ];
+  });
+
+  /** Keywords (normalised) mentioned for more than one candidate. */
+  sharedKeywords = computed(() => {
+    const counts = new Map<string, number>();
+    for (const report of this.reports()) {
+      for (const keyword of new Set(report.assessment.technicalKeywords.map(normalizeKeyword))) {
+        counts.set(keyword, (counts.get(keyword) ?? 0) + 1);
+      }
+    }
+    return new Set([...counts].filter(([, count]) => count > 1).map(([keyword]) => keyword));
+  });
+
+  keywordsInAll = computed(() => {
+    const reports = this.reports();
+    if (reports.length < MIN_CANDIDATES) return [];
+    const [first, ...rest] = reports.map((r) => r.assessment.technicalKeywords);
+    return first.filter((keyword) =>
+      rest.every((keywords) => keywords.some((other) => normalizeKeyword(other) === normalizeKeyword(keyword))),
+    );
+  });
+
+  addCandidate(): void {
+    if (this.usernames.length < MAX_CANDIDATES) this.usernames = [...this.usernames, ''];
+  }
+
+  removeCandidate(index: number): void {
+    if (this.usernames.length > MIN_CANDIDATES) this.usernames = this.usernames.filter((_, i) => i !== index);
+  }
+
+  enteredUsernames(): string[] {
+    return [...new Set(this.usernames.map((username) => username.trim()).filter(Boolean))];
+  }
+
+  async compare(): Promise<void> {
+    const usernames = this.enteredUsernames();
+    if (usernames.length < MIN_CANDIDATES || this.isComparing()) return;
+
+    this.isComparing.set(true);
+    this.comparison.set(null);
+    this.summaryError.set('');
+    this.columns.set(usernames.map((username) => ({ username, status: 'loading' })));
+
+    const source = codeHostSource(this.provider, this.baseUrl);
+    await Promise.all(usernames.map((username, index) => this.loadColumn({ username, ...source }, index)));
+    this.isComparing.set(false);
+  }
+
+  async summarize(): Promise<void> {
+    const reportIds = this.reports().map((report) => report.reportId as string);
+    this.isSummarizing.set(true);
+    this.summaryError.set('');
+    try {
+      this.comparison.set(await this.api.compareCandidates(reportIds));
+    } catch (error) {
+      console.error('Comparison failed:', error);
+      this.summaryError.set('The comparative summary could not be generated. Please try again.');
+    } finally {
+      this.isSummarizing.set(false);
+    }
+  }
+
+  isSharedKeyword(keyword: string): boolean {
+    return this.sharedKeywords().has(normalizeKeyword(keyword));
+  }
+
+  /** Highlights the best score in a row. */
+  isBest(row: CompareRow, index: number): boolean {
+    const scores = row.scores ?? [];
+    const score = scores[index];
+    return score !== undefined && scores.every((other) => other === undefined || other <= score);
+  }
+
+  getScoreColor(score: number): string {
+    return scoreColor(score);
+  }
+
+  getRecommendationColor(recommendation: string): string {
+    return recommendationColor(recommendation);
+  }
+
+  private async loadColumn(candidate: CandidateRef, index: number): Promise<void> {
+    const { username } = candidate;
+    try {
+      const saved = this.preferSaved ? await this.latestSavedRun(candidate) : null;
+      const column: CompareColumn = saved
+        ? { username, status: 'done', source: 'saved', report: saved }
+        : { username, status: 'done', source: 'new', report: await this.api.assess(candidate) };
+      this.updateColumn(index, column);
+    } catch (error) {
+      this.updateColumn(index, { username, status: 'failed', error: describeAnalysisError(error) });
+    }
+  }
+
+  private async latestSavedRun(candidate: CandidateRef) {
+    const [latest] = await this.api.reportHistory(candidate);
+    return latest ? this.api.savedRun(latest.reportId) : null;
+  }
+
+  private updateColumn(index: number, column: CompareColumn): void {
+    this.columns.update((columns) => columns.map((existing, i) => (i === index ? column : existing)));
+  }
+}
@@ -0,0 +1,77 @@
+const USERNAME_HEADERS = ['username', 'github', 'github_username', 'gitlab', 'bitbucket', 'login', 'handle'];
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+function normalizeUsername(value: string): string {
+  return value
+    .trim()
+    .replace(/^@/, '')
+    .replace(/^https?:\/\/(www\.)?(github\.com|gitlab\.com|bitbucket\.org)\//i, '')
+    .split('/')[0];
+}
+
+/**
+ * Extracts usernames from a pasted list or a CSV file. A CSV header
+ * naming a username column is honoured; otherwise the first column is used.
+ * Duplicates are removed, keeping the first occurrence.
+ */
+export function parseUsernames(text: string): string[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  let values: string[];
+  if (lines.length > 1 && lines[0].includes(',')) {
+    const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+    const column = header.findIndex((cell) => USERNAME_HEADERS.includes(cell));
+    const rows = column >= 0 ? lines.slice(1) : lines;
+    values = rows.map((line) => splitCsvLine(line)[Math.max(column, 0)] ?? '');
+  } else {
+    values = lines.flatMap((line) => line.split(/[\s,;]+/));
+  }
+
+  const seen = new Set<string>();
+  return values.map(normalizeUsername).filter((username) => {
+    const key = username.toLowerCase();
+    if (!username || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function escapeCsvCell(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: (string | number | undefined)[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\n');
+}
+
+export function downloadFile(fileName: string, content: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,148 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { combineLatest } from 'rxjs';
+import { CodeHostSelect } from './code-host-select';
+import { InsightRankApi } from './insight-rank-api';
+import {
+  CODE_HOST_LABELS,
+  CandidateRef,
+  CodeHost,
+  RunSummary,
+  SavedRun,
+  codeHostSource,
+  recommendationColor,
+  scoreColor,
+} from './insight-rank';
+import { ReportView } from './report-view';
+import { ListChange, NumberChange, RunDiff, diffRuns } from './run-diff';
+
+/**
+ * Past runs for one candidate (`/history/:username`, with `provider` and
+ * `baseUrl` query parameters for hosts other than GitHub), with a diff between
+ * any two of them.
+ */
+@Component({
+  selector: 'app-history',
+  standalone: true,
+  imports: [FormsModule, CodeHostSelect, ReportView],
+  templateUrl: './history.html',
+})
+export class History {
+  private api = inject(InsightRankApi);
+  private router = inject(Router);
+
+  usernameInput = '';
+  provider: CodeHost = 'github';
+  baseUrl = '';
+  username = signal('');
+  runs = signal<RunSummary[]>([]);
+  isLoading = signal(false);
+  errorMessage = signal('');
+
+  baseId = signal('');
+  targetId = signal('');
+  viewedId = signal('');
+  private loadedRuns = signal<Record<string, SavedRun | undefined>>({});
+
+  base = computed(() => this.loadedRuns()[this.baseId()] ?? null);
+  target = computed(() => this.loadedRuns()[this.targetId()] ?? null);
+  viewed = computed(() => this.loadedRuns()[this.viewedId()] ?? null);
+  diff = computed(() => {
+    const base = this.base();
+    const target = this.target();
+    return base && target && base.reportId !== target.reportId ? diffRuns(base, target) : null;
+  });
+
+  constructor() {
+    const route = inject(ActivatedRoute);
+    combineLatest([route.paramMap, route.queryParamMap])
+      .pipe(takeUntilDestroyed())
+      .subscribe(([params, query]) => {
+        const username = params.get('username') ?? '';
+        const provider = query.get('provider');
+        this.usernameInput = username;
+        this.provider = Object.keys(CODE_HOST_LABELS).includes(provider ?? '') ? (provider as CodeHost) : 'github';
+        this.baseUrl = query.get('baseUrl') ?? '';
+        this.username.set(username);
+        if (username) this.loadHistory({ username, ...codeHostSource(this.provider, this.baseUrl) });
+      });
+  }
+
+  search(): void {
+    const username = this.usernameInput.trim();
+    if (username) {
+      this.router.navigate(['/history', username], { queryParams: codeHostSource(this.provider, this.baseUrl) });
+    }
+  }
+
+  async loadHistory(candidate: CandidateRef): Promise<void> {
+    this.isLoading.set(true);
+    this.errorMessage.set('');
+    this.runs.set([]);
+    this.viewedId.set('');
+    try {
+      const runs = await this.api.reportHistory(candidate);
+      this.runs.set(runs);
+      // Default to comparing the latest run with the one before it
+      if (runs.length >= 2) {
+        await this.selectRuns(runs[1].reportId, runs[0].reportId);
+      }
+    } catch (error) {
+      console.error('Loading history failed:', error);
+      this.errorMessage.set('Could not load the assessment history. Please try again.');
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  async selectRuns(baseId: string, targetId: string): Promise<void> {
+    this.baseId.set(baseId);
+    this.targetId.set(targetId);
+    await Promise.all([this.loadRun(baseId), this.loadRun(targetId)]);
+  }
+
+  async viewRun(reportId: string): Promise<void> {
+    this.viewedId.set(this.viewedId() === reportId ? '' : reportId);
+    if (this.viewedId()) await this.loadRun(reportId);
+  }
+
+  scoreChanges(diff: RunDiff): NumberChange[] {
+    return diff.roleFit ? [diff.roleFit, ...diff.scorecard] : diff.scorecard;
+  }
+
+  listSections(diff: RunDiff): { title: string; change: ListChange }[] {
+    return [
+      { title: 'Strengths', change: diff.strengths },
+      { title: 'Growth Areas', change: diff.growthAreas },
+      { title: 'Technical Keywords', change: diff.technicalKeywords },
+      { title: 'Risk Factors', change: diff.riskFactors },
+    ];
+  }
+
+  getScoreColor(score: number): string {
+    return scoreColor(score);
+  }
+
+  getRecommendationColor(recommendation: string): string {
+    return recommendationColor(recommendation);
+  }
+
+  deltaColor(delta: number): string {
+    if (delta > 0) return 'text-green-400';
+    if (delta < 0) return 'text-red-400';
+    return 'text-slate-400';
+  }
+
+  private async loadRun(reportId: string): Promise<void> {
+    if (!reportId || this.loadedRuns()[reportId]) return;
+    try {
+      const run = await this.api.savedRun(reportId);
+      this.loadedRuns.update((runs) => ({ ...runs, [reportId]: run }));
+    } catch (error) {
+      console.error('Loading run failed:', error);
+      this.errorMessage.set('Could not load one of the selected runs.');
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Injectable, inject } from '@angular/core';
+import { Auth, signInAnonymously } from '@angular/fire/auth';
+import { Functions, FunctionsError, httpsCallable } from '@angular/fire/functions';
+import {
+  AssessmentReport,
+  CandidateComparison,
+  CandidateRef,
+  InsightRankRequest,
+  InsightRankResponse,
+  ProgressEvent,
+  RunSummary,
+  SavedRun,
+  ShareLink,
+  ShareOptions,
+} from './insight-rank';
+
+interface InsightRankErrorDetails {
+  reason?: string;
+  /** Code host display name, e.g. "GitLab". */
+  host?: string;
+  resetAt?: string;
+}
+
+const errorDetails = (error: unknown): InsightRankErrorDetails =>
+  ((error as FunctionsError | undefined)?.details as InsightRankErrorDetails | undefined) ?? {};
+
+/**
+ * Client for the backend callables, shared by the single, batch and shared report views.
+ * Saved reports belong to the signed-in user, so every call except opening a
+ * share link first signs in, anonymously unless a session is already restored.
+ */
+@Injectable({ providedIn: 'root' })
+export class InsightRankApi {
+  private functions = inject(Functions);
+  private auth = inject(Auth);
+
+  private async signIn(): Promise<void> {
+    await this.auth.authStateReady();
+    if (!this.auth.currentUser) {
+      await signInAnonymously(this.auth);
+    }
+  }
+
+  async assess(request: InsightRankRequest): Promise<InsightRankResponse> {
+    await this.signIn();
+    const callable = httpsCallable<InsightRankRequest, InsightRankResponse>(
+      this.functions,
+      'insightRankFunction',
+    );
+    const result = await callable(request);
+    return result.data;
+  }
+
+  /**
+   * Runs an assessment as a streaming call, passing each progress event to
+   * `onEvent`. Aborting `signal` cancels the call on the client and the server.
+   */
+  async assessWithProgress(
+    request: InsightRankRequest,
+    onEvent: (event: ProgressEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<InsightRankResponse> {
+    await this.signIn();
+    const callable = httpsCallable<InsightRankRequest, InsightRankResponse, ProgressEvent>(
+      this.functions,
+      'insightRankFunction',
+    );
+    const { stream, data } = await callable.stream(request, { signal });
+    for await (const event of stream) {
+      onEvent(event);
+    }
+    return data;
+  }
+
+  async reportHistory(candidate: CandidateRef): Promise<RunSummary[]> {
+    await this.signIn();
+    const callable = httpsCallable<CandidateRef, { runs: RunSummary[] }>(this.functions, 'reportHistoryFunction');
+    return (await callable(candidate)).data.runs;
+  }
+
+  async savedRun(reportId: string): Promise<SavedRun> {
+    await this.signIn();
+    const callable = httpsCallable<{ reportId: string }, SavedRun>(this.functions, 'savedRunFunction');
+    return (await callable({ reportId })).data;
+  }
+
+  async compareCandidates(reportIds: string[]): Promise<CandidateComparison> {
+    await this.signIn();
+    const callable = httpsCallable<{ reportIds: string[] }, CandidateComparison>(
+      this.functions,
+      'compareCandidatesFunction',
+    );
+    return (await callable({ reportIds })).data;
+  }
+
+  async createShareLink(options: ShareOptions): Promise<ShareLink> {
+    await this.signIn();
+    const callable = httpsCallable<ShareOptions, ShareLink>(this.functions, 'createShareLinkFunction');
+    return (await callable(options)).data;
+  }
+
+  async revokeShareLink(reportId: string, shareId: string): Promise<void> {
+    await this.signIn();
+    const callable = httpsCallable<{ reportId: string; shareId: string }, { revoked: boolean }>(
+      this.functions,
+      'revokeShareLinkFunction',
+    );
+    await callable({ reportId, shareId });
+  }
+
+  async sharedReport(shareId: string): Promise<AssessmentReport> {
+    const callable = httpsCallable<{ shareId: string }, AssessmentReport>(this.functions, 'sharedReportFunction');
+    return (await callable({ shareId })).data;
+  }
+}
+
+/** When the backend reports a code host rate limit, the time it resets. */
+export function rateLimitResetAt(error: unknown): Date | null {
+  const details = errorDetails(error);
+  return details.reason === 'CODE_HOST_RATE_LIMITED' && details.resetAt ? new Date(details.resetAt) : null;
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return (error as FunctionsError | undefined)?.code === 'functions/cancelled';
+}
+
+export function describeAnalysisError(error: unknown): string {
+  if (isCancelledError(error)) {
+    return 'The analysis was cancelled.';
+  }
+  const { reason, host = 'code host' } = errorDetails(error);
+  switch (reason) {
+    case 'INVALID_ASSESSMENT':
+      return 'The AI could not produce a valid assessment for this developer. No report was generated; please try again.';
+    case 'CODE_HOST_NOT_FOUND':
+      return `No ${host} user exists with this username.`;
+    case 'CODE_HOST_RATE_LIMITED':
+      return `${host} API rate limit reached. Please try again later.`;
+    case 'CODE_HOST_AUTH_FAILED':
+      return `The backend ${host} token was rejected. Please check its configuration.`;
+    case 'CODE_HOST_NOT_ALLOWED':
+      return 'This GitLab instance is not enabled on the server. Ask an administrator to add it to GITLAB_INSTANCES.';
+    case 'UNAUTHENTICATED':
+      return 'Could not sign in. Please reload the page and try again.';
+    default:
+      return 'Failed to analyze the developer. Please check the username and try again.';
+  }
+}
+
+export function describeShareError(error: unknown): string {
+  switch (errorDetails(error).reason) {
+    case 'SHARE_EXPIRED':
+      return 'This report link has expired.';
+    case 'SHARE_REVOKED':
+      return 'This report link was revoked by its owner.';
+    case 'SHARE_NOT_FOUND':
+    case 'REPORT_NOT_FOUND':
+      return 'This report link does not exist.';
+    default:
+      return 'The shared report could not be loaded. Please try again.';
+  }
+}
@@ -0,0 +1,561 @@
+export interface Citation {
+  type: 'repo' | 'pullRequest' | 'commit' | 'event';
+  repo: string;
+  prNumber?: number;
+  sha?: string;
+  eventId?: string;
+  url?: string;
+}
+
+export function citationLabel(citation: Citation): string {
+  switch (citation.type) {
+    case 'pullRequest':
+      return `${citation.repo}#${citation.prNumber}`;
+    case 'commit':
+      return `${citation.repo}@${citation.sha?.slice(0, 7)}`;
+    case 'event':
+      return `${citation.repo} (push event)`;
+    default:
+      return citation.repo;
+  }
+}
+
+export interface CitedFinding {
+  text: string;
+  citations: Citation[];
+}
+
+export interface GuidedFinding extends CitedFinding {
+  guidelineIds: string[];
+}
+
+export type PersonalAttribute =
+  | 'age'
+  | 'gender'
+  | 'family'
+  | 'nationality'
+  | 'location'
+  | 'religion'
+  | 'health'
+  | 'sexuality'
+  | 'politics'
+  | 'appearance';
+
+/** A risk factor set aside because it mentions personal attributes rather than work. */
+export interface FlaggedFinding extends CitedFinding {
+  attributes: PersonalAttribute[];
+}
+
+export interface Guideline {
+  id: string;
+  title: string;
+  text: string;
+  source: string;
+}
+
+export type ScoreDimension =
+  | 'codeQuality'
+  | 'testing'
+  | 'documentation'
+  | 'versionControl'
+  | 'collaboration'
+  | 'architecture'
+  | 'security'
+  | 'consistency'
+  | 'reviewer';
+
+export interface DimensionScore {
+  score: number;
+  rationale: string;
+  confidence: 'low' | 'medium' | 'high';
+}
+
+export const SCORE_DIMENSION_LABELS: Record<ScoreDimension, string> = {
+  codeQuality: 'Code Quality',
+  testing: 'Testing',
+  documentation: 'Documentation',
+  versionControl: 'Version Control',
+  collaboration: 'Collaboration',
+  architecture: 'Architecture',
+  security: 'Security',
+  consistency: 'Consistency',
+  reviewer: 'Reviewer',
+};
+
+export type Seniority = 'Intern' | 'Junior' | 'Mid' | 'Senior' | 'Staff' | 'Principal';
+
+export interface RoleProfile {
+  title?: string;
+  seniority?: Seniority;
+  requiredSkills?: string[];
+  niceToHaveSkills?: string[];
+  jobDescription?: string;
+}
+
+export interface RoleFit {
+  score: number;
+  rationale: string;
+  requiredSkills: string[];
+  matchedSkills: string[];
+  missingSkills: string[];
+  matchedNiceToHaveSkills: string[];
+}
+
+/** A code host tool that failed or was rate limited; its part of the evidence is empty. */
+export interface ToolFailure {
+  step: ProgressStep;
+  account: string;
+  reason: 'rate_limited' | 'failed';
+  message: string;
+}
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+/** How much data an assessment rests on, and the confidence that allows. */
+export interface DataCoverage {
+  repos: number;
+  originalRepos: number;
+  pullRequests: number;
+  commits: number;
+  reviews: number;
+  sampledRepos: number;
+  firstActivity: string | null;
+  lastActivity: string | null;
+  spanDays: number;
+  failures: ToolFailure[];
+  confidence: ConfidenceLevel;
+  /** What lowered the confidence. */
+  reasons: string[];
+}
+
+export type Recommendation = 'Strong Hire' | 'Hire' | 'Consider' | 'Pass' | 'Insufficient Evidence';
+
+export interface InsightRankResult {
+  strengths: GuidedFinding[];
+  growthAreas: GuidedFinding[];
+  technicalKeywords: string[];
+  bestContribution: CitedFinding;
+  /** The reviewer score is absent on runs saved before reviews given were assessed. */
+  scorecard: Record<Exclude<ScoreDimension, 'reviewer'>, DimensionScore> & { reviewer?: DimensionScore };
+  overallScore: number;
+  recommendation: Recommendation;
+  interviewQuestions: string[];
+  reviewInterviewQuestions?: string[];
+  riskFactors?: CitedFinding[];
+  droppedCitations: string[];
+  roleFit?: RoleFit;
+  /** The fairness fields below are absent on runs saved before they were added. */
+  blind?: boolean;
+  /** Why the public evidence was too sparse to recommend either way. */
+  insufficientEvidence?: string;
+  flaggedRiskFactors?: FlaggedFinding[];
+  /** Absent on runs saved before data coverage was reported. */
+  coverage?: DataCoverage;
+}
+
+export type CodeHost = 'github' | 'gitlab' | 'bitbucket';
+
+export const CODE_HOST_LABELS: Record<CodeHost, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+/** Where a candidate's profile lives; `baseUrl` is only used for self-hosted GitLab. */
+export interface CodeHostSource {
+  provider: CodeHost;
+  baseUrl?: string;
+}
+
+/** Drops the base URL unless it points GitLab at a self-hosted instance. */
+export function codeHostSource(provider: CodeHost, baseUrl = ''): CodeHostSource {
+  const url = baseUrl.trim().replace(/\/+$/, '');
+  return provider === 'gitlab' && url ? { provider, baseUrl: url } : { provider };
+}
+
+export function profileUrl({ provider, baseUrl }: CodeHostSource, username: string): string {
+  switch (provider) {
+    case 'github':
+      return `https://github.com/${username}`;
+    case 'gitlab':
+      return `${baseUrl ?? 'https://gitlab.com'}/${username}`;
+    case 'bitbucket':
+      return `https://bitbucket.org/${username}`;
+  }
+}
+
+export interface DeveloperEvidence {
+  username: string;
+  /** Absent on runs saved before GitLab and Bitbucket support, which are all GitHub. */
+  provider?: CodeHost;
+  webUrl?: string;
+  collectedAt: string;
+  profile: {
+    login: string;
+    avatar_url: string;
+    html_url: string;
+    name: string | null;
+    public_repos: number;
+    followers: number;
+    created_at: string;
+  };
+  repos: {
+    name: string;
+    full_name: string;
+    html_url: string;
+    language: string | null;
+    pushed_at: string;
+    stargazers_count: number;
+    forks: number;
+    fork?: boolean;
+    /** Absent on runs saved before repos were classified. */
+    classification?: { kind: RepoKind; reason: string };
+    account?: string;
+  }[];
+  languageStats: {
+    totalRepos: number;
+    topLanguages: { name: string; count: number; percentage: number; bytes?: number }[];
+    /** Absent on runs saved before languages were weighted by code, whose percentages count repos. */
+    weighting?: 'bytes' | 'shares';
+    excludedRepos?: { forks: number; archived: number; templates: number };
+    trend?: { year: number; repos: number; languages: { name: string; percentage: number }[] }[];
+  };
+  pullRequests: {
+    totalPRs: number;
+    averagePRSize: number;
+    mergeRate: number;
+    /** Absent on runs saved before pull requests were enriched with their reviews. */
+    medianHoursToFirstReview?: number | null;
+    medianHoursToMerge?: number | null;
+    averageReviewRounds?: number;
+    revisedAfterChangesRate?: number | null;
+  };
+  commitAnalysis: {
+    totalCommits: number;
+    commitFrequency: string;
+    averageCommitsPerWeek: number;
+    commitMessageQuality: string;
+    /** Absent on runs saved before commits were read from repository history. */
+    windowDays?: number;
+    averageCommitSize?: number;
+    messageStats?: CommitMessageStats;
+  };
+  starredRepos: {
+    totalStarred: number;
+    topStarredLanguages: string[];
+  };
+  /** Absent on runs saved before external contributions were collected. */
+  externalContributions?: ExternalContributions;
+  /** Absent on runs saved before reviews given were collected. */
+  reviewActivity?: ReviewActivity;
+  /** Absent on runs saved before code was sampled. */
+  codeSample?: CodeSample;
+  /** Absent on runs saved before linked accounts were supported. */
+  accounts?: EvidenceAccount[];
+  duplicates?: DuplicateRepo[];
+  /** Tools that failed, leaving their part of the evidence empty. */
+  failures?: ToolFailure[];
+}
+
+export type RepoKind = 'original' | 'fork_with_changes' | 'untouched_fork' | 'tutorial' | 'template' | 'profile';
+
+export const REPO_KIND_LABELS: Record<RepoKind, string> = {
+  original: 'Original',
+  fork_with_changes: 'Fork with changes',
+  untouched_fork: 'Untouched fork',
+  tutorial: 'Tutorial or course',
+  template: 'Generated scaffold',
+  profile: 'Profile or dotfiles',
+};
+
+/**
+ * Repos the assessment judged as the candidate's own work; unclassified ones
+ * predate classification or could not be classified, and count unless they are forks.
+ */
+export function isOriginalWork(repo: DeveloperEvidence['repos'][number]): boolean {
+  return repo.classification ? ['original', 'fork_with_changes'].includes(repo.classification.kind) : !repo.fork;
+}
+
+/** Why a repo was not judged as the candidate's own work. */
+export function exclusionReason(repo: DeveloperEvidence['repos'][number]): string {
+  return repo.classification?.reason ?? 'Fork that could not be classified';
+}
+
+/** Percentages of the analyzed commit messages showing each habit. */
+export interface CommitMessageStats {
+  conventional: number;
+  imperative: number;
+  conciseSubject: number;
+  withBody: number;
+  issueReferences: number;
+}
+
+export type ReviewOutcome = 'approved' | 'changes_requested' | 'commented' | 'unreviewed';
+
+/** Pull requests the candidate opened on repositories they do not own. */
+export interface ExternalContributions {
+  totalPRs: number;
+  merged: number;
+  closed: number;
+  open: number;
+  mergeRate: number;
+  projects: {
+    repo: string;
+    html_url: string;
+    stargazers_count: number;
+    language: string | null;
+    merged: number;
+    closed: number;
+    open: number;
+    approvals: number;
+    changesRequested: number;
+  }[];
+  recentPRs: {
+    repo: string;
+    number: number;
+    html_url: string;
+    title: string;
+    state: 'open' | 'merged' | 'closed';
+    created_at: string;
+    merged_at: string | null;
+    maintainerReview: ReviewOutcome | null;
+    account?: string;
+  }[];
+}
+
+/** Reviews the candidate gave on other people's pull requests. */
+export interface ReviewActivity {
+  reviewedPRs: number;
+  totalReviews: number;
+  approvals: number;
+  changesRequested: number;
+  commentOnly: number;
+  inlineComments: number;
+  averageCommentsPerReview: number;
+  averageCommentLength: number;
+  repos: string[];
+  recentReviews: {
+    repo: string;
+    number: number;
+    html_url: string;
+    state: 'approved' | 'changes_requested' | 'commented';
+    submitted_at: string;
+    comments: number;
+    excerpt: string | null;
+    account?: string;
+  }[];
+}
+
+/** Static signals and representative files from one of the candidate's most significant repos. */
+export interface RepoCodeSample {
+  repo: string;
+  html_url: string;
+  language: string | null;
+  files: number;
+  sourceFiles: number;
+  testFiles: number;
+  testRatio: number;
+  ci: string[];
+  linters: string[];
+  readme: {
+    path: string;
+    length: number;
+    topics: ('installation' | 'usage' | 'development' | 'license')[];
+    completeness: 'minimal' | 'partial' | 'complete';
+  } | null;
+  license: string | null;
+  manifests: string[];
+  fileSizes: {
+    measured: number;
+    medianBytes: number;
+    p90Bytes: number;
+    largestBytes: number;
+    largestPath: string;
+  } | null;
+  truncated: boolean;
+  snippets: {
+    path: string;
+    html_url: string;
+    kind: 'source' | 'test';
+    lines: number;
+    excerpt: string;
+  }[];
+  account?: string;
+}
+
+export interface CodeSample {
+  sampledRepos: number;
+  withTests: number;
+  withCI: number;
+  withLinters: number;
+  withLicense: number;
+  repos: RepoCodeSample[];
+}
+
+export interface EvidenceAccount {
+  id: string;
+  provider: CodeHost;
+  username: string;
+  webUrl: string;
+  profileUrl: string;
+  name: string | null;
+}
+
+/** A repo left out of a combined assessment because another linked account has the same repo. */
+export interface DuplicateRepo {
+  repo: string;
+  account: string;
+  duplicateOf: string;
+  reason: 'fork' | 'mirror';
+}
+
+/** The host a report's evidence came from, in the form requests and history links take. */
+export function evidenceSource(evidence: DeveloperEvidence): CodeHostSource {
+  const provider = evidence.provider ?? 'github';
+  return evidence.webUrl === 'https://gitlab.com' ? { provider } : codeHostSource(provider, evidence.webUrl);
+}
+
+/** Review turnaround for display, e.g. "5h" or "2.5 days"; "n/a" when there was none. */
+export function formatHours(hours: number | null | undefined): string {
+  if (hours === null || hours === undefined) return 'n/a';
+  if (hours < 1) return 'under an hour';
+  return hours < 48 ? `${Math.round(hours)}h` : `${Math.round((hours / 24) * 10) / 10} days`;
+}
+
+/** Display name of the host the evidence was collected from. */
+export function evidenceHostLabel(evidence: DeveloperEvidence): string {
+  return CODE_HOST_LABELS[evidence.provider ?? 'github'];
+}
+
+export interface CandidateRef extends Partial<CodeHostSource> {
+  username: string;
+}
+
+export interface InsightRankRequest extends CandidateRef {
+  role?: RoleProfile;
+  /** Further accounts of the same developer, assessed together with this one. */
+  linkedAccounts?: CandidateRef[];
+  /** Hides the name, company, location, bio and avatar from the model. */
+  blind?: boolean;
+}
+
+export interface AssessmentReport {
+  assessment: InsightRankResult;
+  evidence: DeveloperEvidence;
+  guidelines: Guideline[];
+  model: string;
+  generatedAt: string;
+}
+
+export interface InsightRankResponse extends AssessmentReport {
+  /** Id of the saved report, or null when it could not be persisted. */
+  reportId: string | null;
+}
+
+/** A stored run: the report plus what produced it. */
+export interface SavedRun extends AssessmentReport {
+  reportId: string;
+  input: InsightRankRequest;
+  promptVersion: string;
+}
+
+export interface RunSummary {
+  reportId: string;
+  generatedAt: string;
+  model: string;
+  promptVersion: string;
+  overallScore: number;
+  recommendation: Recommendation;
+  roleTitle?: string;
+}
+
+export interface CandidateComparison {
+  summary: string;
+  points: (CitedFinding & { candidate: string; username: string })[];
+  usernames: string[];
+  droppedCitations: string[];
+}
+
+export type ProgressStep =
+  | 'profile'
+  | 'repos'
+  | 'languages'
+  | 'pullRequests'
+  | 'commits'
+  | 'starred'
+  | 'externalContributions'
+  | 'reviews'
+  | 'codeSample'
+  | 'guidelines'
+  | 'analysis'
+  | 'scoring'
+  | 'saving';
+
+export const PROGRESS_STEP_LABELS: Record<ProgressStep, string> = {
+  profile: 'Profile',
+  repos: 'Repositories',
+  languages: 'Languages',
+  pullRequests: 'Pull Requests',
+  commits: 'Commits',
+  starred: 'Starred Repos',
+  externalContributions: 'External Contributions',
+  reviews: 'Reviews Given',
+  codeSample: 'Code Sample',
+  guidelines: 'Guidelines',
+  analysis: 'AI Analysis',
+  scoring: 'Scoring',
+  saving: 'Saving',
+};
+
+/** Streamed by insightRankFunction while an analysis runs. */
+export type ProgressEvent =
+  | { type: 'step'; step: ProgressStep; status: 'started' | 'completed'; message: string }
+  | { type: 'partial'; attempt: number; assessment: Partial<InsightRankResult> };
+
+export interface ShareOptions {
+  reportId: string;
+  expiresInDays: number;
+  hideRiskFactors: boolean;
+}
+
+export interface ShareLink {
+  shareId: string;
+  reportId: string;
+  expiresAt: string;
+  hideRiskFactors: boolean;
+}
+
+export function scoreColor(score: number): string {
+  if (score >= 8) return 'text-green-400';
+  if (score >= 6) return 'text-yellow-400';
+  if (score >= 4) return 'text-orange-400';
+  return 'text-red-400';
+}
+
+export function confidenceColor(confidence: ConfidenceLevel): string {
+  switch (confidence) {
+    case 'high':
+      return 'text-green-400';
+    case 'medium':
+      return 'text-yellow-400';
+    case 'low':
+      return 'text-red-400';
+  }
+}
+
+export function recommendationColor(recommendation: string): string {
+  switch (recommendation) {
+    case 'Strong Hire':
+      return 'text-green-400';
+    case 'Hire':
+      return 'text-green-300';
+    case 'Consider':
+      return 'text-yellow-400';
+    case 'Pass':
+      return 'text-red-400';
+    case 'Insufficient Evidence':
+      return 'text-slate-300';
+    default:
+      return 'text-gray-400';
+  }
+}
@@ -0,0 +1,329 @@
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+import { downloadFile } from './csv';
+import {
+  AssessmentReport,
+  CitedFinding,
+  DeveloperEvidence,
+  SCORE_DIMENSION_LABELS,
+  ScoreDimension,
+  citationLabel,
+  evidenceHostLabel,
+  exclusionReason,
+  isOriginalWork,
+} from './insight-rank';
+
+export type ReportFormat = 'pdf' | 'png' | 'markdown' | 'json';
+
+/** One block of the exported report, rendered by both the Markdown and PDF writers. */
+interface ReportSection {
+  heading: string;
+  paragraphs?: string[];
+  items?: (string | CitedFinding)[];
+}
+
+/** Headline numbers from the evidence bundle, shown in every export. */
+export function evidenceSummary(evidence: DeveloperEvidence): { label: string; value: string }[] {
+  const languages = evidence.languageStats.topLanguages
+    .map((language) => `${language.name} ${language.percentage}%`)
+    .join(', ');
+  return [
+    { label: 'Public repos', value: String(evidence.profile.public_repos) },
+    { label: 'Followers', value: String(evidence.profile.followers) },
+    {
+      label: 'Pull requests',
+      value: `${evidence.pullRequests.totalPRs} (${evidence.pullRequests.mergeRate}% merged)`,
+    },
+    {
+      label: 'Commits',
+      value: `${evidence.commitAnalysis.totalCommits} (${evidence.commitAnalysis.commitFrequency} frequency)`,
+    },
+    { label: 'Commit message quality', value: evidence.commitAnalysis.commitMessageQuality },
+    { label: 'Top languages', value: languages || 'None' },
+    { label: 'Starred repos', value: String(evidence.starredRepos.totalStarred) },
+    ...(evidence.externalContributions
+      ? [
+          {
+            label: 'External pull requests',
+            value: `${evidence.externalContributions.totalPRs} (${evidence.externalContributions.mergeRate}% merged)`,
+          },
+        ]
+      : []),
+    ...(evidence.reviewActivity
+      ? [
+          {
+            label: 'Reviews given',
+            value: `${evidence.reviewActivity.totalReviews} on ${evidence.reviewActivity.reviewedPRs} pull requests`,
+          },
+        ]
+      : []),
+    ...(evidence.repos.some((repo) => !isOriginalWork(repo))
+      ? [
+          {
+            label: 'Excluded repos',
+            value: evidence.repos
+              .filter((repo) => !isOriginalWork(repo))
+              .map((repo) => `${repo.name} (${exclusionReason(repo)})`)
+              .join('; '),
+          },
+        ]
+      : []),
+    ...(evidence.codeSample
+      ? [
+          {
+            label: 'Sampled repos',
+            value: `${evidence.codeSample.sampledRepos} (${evidence.codeSample.withTests} with tests, ${evidence.codeSample.withCI} with CI)`,
+          },
+        ]
+      : []),
+    ...((evidence.accounts?.length ?? 0) > 1
+      ? [{ label: 'Linked accounts', value: (evidence.accounts ?? []).map((account) => account.id).join(', ') }]
+      : []),
+  ];
+}
+
+function reportSections({ assessment, evidence }: AssessmentReport): ReportSection[] {
+  const sections: ReportSection[] = [
+    {
+      heading: 'Summary',
+      paragraphs: [
+        `Overall score: ${assessment.overallScore}/10`,
+        `Recommendation: ${assessment.recommendation}`,
+        ...(assessment.insufficientEvidence ? [`${assessment.insufficientEvidence}, too little to judge either way.`] : []),
+        ...(assessment.blind ? ['Blind assessment: the name, company, location, bio and avatar were hidden from the AI.'] : []),
+        ...(assessment.coverage
+          ? [
+              `Confidence: ${assessment.coverage.confidence}${assessment.coverage.reasons.length ? ` (${assessment.coverage.reasons.join('; ')})` : ''}`,
+            ]
+          : []),
+      ],
+    },
+  ];
+
+  if (assessment.roleFit) {
+    const { roleFit } = assessment;
+    sections.push({
+      heading: 'Role Fit',
+      paragraphs: [`Score: ${roleFit.score}/10`, roleFit.rationale],
+      items: [
+        `Matched skills: ${roleFit.matchedSkills.join(', ') || 'None'}`,
+        `Missing skills: ${roleFit.missingSkills.join(', ') || 'None'}`,
+      ],
+    });
+  }
+
+  sections.push(
+    {
+      heading: 'Scorecard',
+      items: (Object.keys(SCORE_DIMENSION_LABELS) as ScoreDimension[]).flatMap((dimension) => {
+        const entry = assessment.scorecard[dimension];
+        if (!entry) return [];
+        const { score, rationale, confidence } = entry;
+        return [`${SCORE_DIMENSION_LABELS[dimension]}: ${score}/10 (${confidence} confidence). ${rationale}`];
+      }),
+    },
+    { heading: 'Strengths', items: assessment.strengths },
+    { heading: 'Growth Areas', items: assessment.growthAreas },
+    { heading: 'Technical Keywords', paragraphs: [assessment.technicalKeywords.join(', ')] },
+    { heading: 'Best Contribution', items: [assessment.bestContribution] },
+    { heading: 'Interview Questions', items: assessment.interviewQuestions },
+  );
+  if (assessment.reviewInterviewQuestions?.length) {
+    sections.push({ heading: 'Code Review Interview Questions', items: assessment.reviewInterviewQuestions });
+  }
+
+  if (assessment.riskFactors?.length) {
+    sections.push({ heading: 'Risk Factors', items: assessment.riskFactors });
+  }
+
+  sections.push({
+    heading: 'Evidence Summary',
+    paragraphs: [`Collected ${evidence.collectedAt} from the ${evidenceHostLabel(evidence)} API.`],
+    items: evidenceSummary(evidence).map(({ label, value }) => `${label}: ${value}`),
+  });
+
+  return sections;
+}
+
+function fileStem(report: AssessmentReport): string {
+  return `insightrank-${report.evidence.username}-${report.generatedAt.slice(0, 10)}`;
+}
+
+export function reportMarkdown(report: AssessmentReport): string {
+  const { profile } = report.evidence;
+  const lines = [
+    `# InsightRank Assessment: ${profile.name ?? profile.login}`,
+    '',
+    `<img src="${profile.avatar_url}" alt="${profile.login}" width="80" />`,
+    '',
+    `- ${evidenceHostLabel(report.evidence)}: [@${profile.login}](${profile.html_url})`,
+    `- Generated: ${report.generatedAt}`,
+    `- Model: ${report.model}`,
+  ];
+
+  for (const section of reportSections(report)) {
+    lines.push('', `## ${section.heading}`, '');
+    for (const paragraph of section.paragraphs ?? []) {
+      lines.push(paragraph, '');
+    }
+    for (const item of section.items ?? []) {
+      if (typeof item === 'string') {
+        lines.push(`- ${item}`);
+        continue;
+      }
+      const sources = item.citations.map((citation) => `[${citationLabel(citation)}](${citation.url})`);
+      lines.push(`- ${item.text}${sources.length ? ` (${sources.join(', ')})` : ''}`);
+    }
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n') + '\n';
+}
+
+async function imageDataUrl(url: string): Promise<string | null> {
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    // The report is still useful without the avatar.
+    return null;
+  }
+}
+
+export async function reportPdf(report: AssessmentReport): Promise<jsPDF> {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 48;
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  const bottom = doc.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  const write = (text: string, size: number, style: 'normal' | 'bold' = 'normal', indent = 0) => {
+    doc.setFont('helvetica', style).setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, width - indent);
+    const lineHeight = size * 1.35;
+    for (const line of lines) {
+      if (y + lineHeight > bottom) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    }
+  };
+
+  const { profile } = report.evidence;
+  const avatar = await imageDataUrl(profile.avatar_url);
+  if (avatar) {
+    doc.addImage(avatar, margin, y, 56, 56);
+  }
+  const headerIndent = avatar ? 72 : 0;
+  write('InsightRank Assessment', 20, 'bold', headerIndent);
+  write(`${profile.name ?? profile.login} (@${profile.login})`, 12, 'normal', headerIndent);
+  write(`Generated ${report.generatedAt} with ${report.model}`, 9, 'normal', headerIndent);
+  y = Math.max(y, margin + 64);
+
+  for (const section of reportSections(report)) {
+    y += 10;
+    write(section.heading, 14, 'bold');
+    for (const paragraph of section.paragraphs ?? []) {
+      write(paragraph, 10);
+    }
+    for (const item of section.items ?? []) {
+      if (typeof item === 'string') {
+        write(`• ${item}`, 10, 'normal', 8);
+        continue;
+      }
+      write(`• ${item.text}`, 10, 'normal', 8);
+      if (item.citations.length > 0) {
+        doc.setTextColor(90);
+        write(`Sources: ${item.citations.map(citationLabel).join(', ')}`, 8, 'normal', 18);
+        doc.setTextColor(0);
+      }
+    }
+  }
+
+  return doc;
+}
+
+/**
+ * html2canvas cannot parse the oklch()/color-mix() colours Tailwind 4 emits,
+ * so the cloned document gets every colour inlined as rgba() before rendering.
+ */
+function inlineRgbColors(root: HTMLElement): void {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return;
+
+  const toRgba = (color: string) => {
+    context.clearRect(0, 0, 1, 1);
+    context.fillStyle = color;
+    context.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = context.getImageData(0, 0, 1, 1).data;
+    return `rgba(${r}, ${g}, ${b}, ${Math.round((a / 255) * 100) / 100})`;
+  };
+
+  const properties = [
+    'color',
+    'background-color',
+    'border-top-color',
+    'border-right-color',
+    'border-bottom-color',
+    'border-left-color',
+  ];
+  for (const element of [root, ...Array.from(root.querySelectorAll<HTMLElement>('*'))]) {
+    const style = getComputedStyle(element);
+    for (const property of properties) {
+      const value = style.getPropertyValue(property);
+      if (/okl|color-mix|lab\(|lch\(/.test(value)) {
+        element.style.setProperty(property, toRgba(value));
+      }
+    }
+    if (/okl|color-mix|lab\(|lch\(/.test(style.backgroundImage)) {
+      element.style.backgroundImage = 'none';
+    }
+  }
+}
+
+export async function reportPng(element: HTMLElement): Promise<Blob> {
+  const canvas = await html2canvas(element, {
+    backgroundColor: '#0f172a',
+    scale: 2,
+    useCORS: true,
+    onclone: (_document, clone) => inlineRgbColors(clone),
+  });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not render the report image.'))), 'image/png'),
+  );
+}
+
+/**
+ * Downloads the report in the requested format. The PNG is a snapshot of
+ * `element`, which should be the rendered results card.
+ */
+export async function exportReport(
+  report: AssessmentReport,
+  format: ReportFormat,
+  element?: HTMLElement,
+): Promise<void> {
+  const stem = fileStem(report);
+  switch (format) {
+    case 'json':
+      downloadFile(`${stem}.json`, JSON.stringify(report, null, 2), 'application/json');
+      return;
+    case 'markdown':
+      downloadFile(`${stem}.md`, reportMarkdown(report), 'text/markdown');
+      return;
+    case 'pdf':
+      (await reportPdf(report)).save(`${stem}.pdf`);
+      return;
+    case 'png':
+      if (!element) throw new Error('Nothing to capture for the PNG export.');
+      downloadFile(`${stem}.png`, await reportPng(element), 'image/png');
+      return;
+  }
+}
@@ -0,0 +1,75 @@
+import { Component, input } from '@angular/core';
+import { CitationLinks } from './citation-links';
+import {
+  AssessmentReport,
+  DeveloperEvidence,
+  DimensionScore,
+  Guideline,
+  ConfidenceLevel,
+  InsightRankResult,
+  PROGRESS_STEP_LABELS,
+  REPO_KIND_LABELS,
+  SCORE_DIMENSION_LABELS,
+  ScoreDimension,
+  confidenceColor,
+  exclusionReason,
+  formatHours,
+  isOriginalWork,
+  recommendationColor,
+  scoreColor,
+} from './insight-rank';
+import { evidenceSummary } from './report-export';
+
+/**
+ * Read-only rendering of a completed assessment, shared by the analysis page
+ * and shared report links. Projected content is placed at the bottom of the card.
+ */
+@Component({
+  selector: 'app-report-view',
+  standalone: true,
+  imports: [CitationLinks],
+  templateUrl: './report-view.html',
+  host: { class: 'block' },
+})
+export class ReportView {
+  report = input.required<AssessmentReport>();
+  repoKindLabels = REPO_KIND_LABELS;
+  exclusionReason = exclusionReason;
+  progressStepLabels = PROGRESS_STEP_LABELS;
+
+  findGuideline(id: string): Guideline | undefined {
+    return this.report().guidelines.find((guideline) => guideline.id === id);
+  }
+
+  scorecardEntries(result: InsightRankResult): ({ dimension: ScoreDimension; label: string } & DimensionScore)[] {
+    return (Object.keys(SCORE_DIMENSION_LABELS) as ScoreDimension[]).flatMap((dimension) => {
+      const entry = result.scorecard[dimension];
+      return entry ? [{ dimension, label: SCORE_DIMENSION_LABELS[dimension], ...entry }] : [];
+    });
+  }
+
+  evidenceSummary(evidence: DeveloperEvidence) {
+    return evidenceSummary(evidence);
+  }
+
+  /** Repos left out of the assessment, with why. */
+  excludedRepos(evidence: DeveloperEvidence): DeveloperEvidence['repos'] {
+    return evidence.repos.filter((repo) => !isOriginalWork(repo));
+  }
+
+  formatHours(hours: number | null | undefined): string {
+    return formatHours(hours);
+  }
+
+  getScoreColor(score: number): string {
+    return scoreColor(score);
+  }
+
+  getRecommendationColor(recommendation: string): string {
+    return recommendationColor(recommendation);
+  }
+
+  getConfidenceColor(confidence: ConfidenceLevel): string {
+    return confidenceColor(confidence);
+  }
+}
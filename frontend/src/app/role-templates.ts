@@ -0,0 +1,39 @@
+import { Injectable, signal } from '@angular/core';
+import { RoleProfile } from './insight-rank';
+
+export interface RoleTemplate {
+  name: string;
+  role: RoleProfile;
+}
+
+const STORAGE_KEY = 'insightrank.roleTemplates';
+
+/**
+ * Role profiles recruiters reuse across openings, kept in localStorage.
+ */
+@Injectable({ providedIn: 'root' })
+export class RoleTemplates {
+  readonly templates = signal<RoleTemplate[]>(this.load());
+
+  save(template: RoleTemplate): void {
+    const others = this.templates().filter((existing) => existing.name !== template.name);
+    this.persist([...others, template].sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  remove(name: string): void {
+    this.persist(this.templates().filter((template) => template.name !== name));
+  }
+
+  private load(): RoleTemplate[] {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as RoleTemplate[];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(templates: RoleTemplate[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    this.templates.set(templates);
+  }
+}
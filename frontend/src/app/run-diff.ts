@@ -0,0 +1,107 @@
+import { Recommendation, SCORE_DIMENSION_LABELS, SavedRun, ScoreDimension } from './insight-rank';
+
+export interface NumberChange {
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface RunDiff {
+  overallScore: NumberChange;
+  recommendation: { before: Recommendation; after: Recommendation; changed: boolean };
+  roleFit: NumberChange | null;
+  scorecard: NumberChange[];
+  strengths: ListChange;
+  growthAreas: ListChange;
+  technicalKeywords: ListChange;
+  riskFactors: ListChange;
+  evidence: NumberChange[];
+  modelChanged: boolean;
+  promptChanged: boolean;
+}
+
+const numberChange = (label: string, before: number, after: number): NumberChange => ({
+  label,
+  before,
+  after,
+  delta: Math.round((after - before) * 10) / 10,
+});
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/** Items present in only one of the lists, compared ignoring case and punctuation. */
+function listChange(before: string[], after: string[]): ListChange {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalize(item))),
+    removed: before.filter((item) => !afterKeys.has(normalize(item))),
+  };
+}
+
+/** Field-by-field comparison of an earlier run (`base`) with a later one (`target`). */
+export function diffRuns(base: SavedRun, target: SavedRun): RunDiff {
+  const a = base.assessment;
+  const b = target.assessment;
+
+  return {
+    overallScore: numberChange('Overall Score', a.overallScore, b.overallScore),
+    recommendation: {
+      before: a.recommendation,
+      after: b.recommendation,
+      changed: a.recommendation !== b.recommendation,
+    },
+    roleFit: a.roleFit && b.roleFit ? numberChange('Role Fit', a.roleFit.score, b.roleFit.score) : null,
+    // Dimensions added after either run was made have nothing to compare
+    scorecard: (Object.keys(SCORE_DIMENSION_LABELS) as ScoreDimension[]).flatMap((dimension) => {
+      const before = a.scorecard[dimension];
+      const after = b.scorecard[dimension];
+      return before && after ? [numberChange(SCORE_DIMENSION_LABELS[dimension], before.score, after.score)] : [];
+    }),
+    strengths: listChange(
+      a.strengths.map((finding) => finding.text),
+      b.strengths.map((finding) => finding.text),
+    ),
+    growthAreas: listChange(
+      a.growthAreas.map((finding) => finding.text),
+      b.growthAreas.map((finding) => finding.text),
+    ),
+    technicalKeywords: listChange(a.technicalKeywords, b.technicalKeywords),
+    riskFactors: listChange(
+      (a.riskFactors ?? []).map((finding) => finding.text),
+      (b.riskFactors ?? []).map((finding) => finding.text),
+    ),
+    evidence: [
+      numberChange('Public repos', base.evidence.profile.public_repos, target.evidence.profile.public_repos),
+      numberChange('Followers', base.evidence.profile.followers, target.evidence.profile.followers),
+      numberChange('Pull requests', base.evidence.pullRequests.totalPRs, target.evidence.pullRequests.totalPRs),
+      numberChange(
+        'Recent commits',
+        base.evidence.commitAnalysis.totalCommits,
+        target.evidence.commitAnalysis.totalCommits,
+      ),
+      // Runs saved before external contributions were collected have nothing to compare
+      ...(base.evidence.externalContributions && target.evidence.externalContributions
+        ? [
+            numberChange(
+              'External pull requests merged',
+              base.evidence.externalContributions.merged,
+              target.evidence.externalContributions.merged,
+            ),
+          ]
+        : []),
+    ],
+    modelChanged: base.model !== target.model,
+    promptChanged: base.promptVersion !== target.promptVersion,
+  };
+}
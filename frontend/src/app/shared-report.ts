@@ -0,0 +1,43 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { InsightRankApi, describeShareError } from './insight-rank-api';
+import { AssessmentReport } from './insight-rank';
+import { ReportView } from './report-view';
+
+/** Read-only view of a report opened through a share link (`/report/:id`). */
+@Component({
+  selector: 'app-shared-report',
+  standalone: true,
+  imports: [ReportView, RouterLink],
+  template: `
+    <div class="max-w-4xl mx-auto">
+      @if (report(); as report) {
+        <app-report-view [report]="report" />
+      } @else if (errorMessage()) {
+        <div class="bg-red-900/50 border border-red-500/50 rounded-lg p-6 text-red-200 text-center">
+          <p class="font-semibold">{{ errorMessage() }}</p>
+          <a routerLink="/" class="inline-block mt-4 text-blue-300 hover:text-blue-200">Analyze a developer</a>
+        </div>
+      } @else {
+        <p class="text-center text-blue-200">Loading report…</p>
+      }
+    </div>
+  `,
+})
+export class SharedReport implements OnInit {
+  private api = inject(InsightRankApi);
+  private route = inject(ActivatedRoute);
+
+  report = signal<AssessmentReport | null>(null);
+  errorMessage = signal('');
+
+  async ngOnInit(): Promise<void> {
+    const shareId = this.route.snapshot.paramMap.get('id') ?? '';
+    try {
+      this.report.set(await this.api.sharedReport(shareId));
+    } catch (error) {
+      console.error('Loading shared report failed:', error);
+      this.errorMessage.set(describeShareError(error));
+    }
+  }
+}